@@ -0,0 +1,114 @@
+import { EventRef, TFile } from 'obsidian';
+import { createThreadNote, getContinuationParent } from './commands/createThreadNote';
+import { reparentNote } from './commands/moveNote';
+import { createNoteComparator } from './graph';
+import type { ThreadEdge, ThreadNode } from './graph';
+import type MyPlugin from './main';
+
+declare module 'obsidian' {
+    interface Workspace {
+        /** Thread structure changed; paths are the notes whose edges or markers changed */
+        on(name: 'thread-notes:graph-changed', callback: (paths: string[]) => unknown, ctx?: unknown): EventRef;
+        /** A note was attached to a thread: created as a reply or continuation, or given a prev */
+        on(name: 'thread-notes:note-added', callback: (node: ThreadNode, prevPath: string) => unknown, ctx?: unknown): EventRef;
+        /** A note moved to a new path; renames never fire note-added */
+        on(name: 'thread-notes:note-renamed', callback: (path: string, oldPath: string) => unknown, ctx?: unknown): EventRef;
+    }
+}
+
+/**
+ * Stable API for other plugins and scripts, available as
+ * `app.plugins.plugins['obsidian-thread-notes'].api`.
+ *
+ * Paths are vault paths of markdown notes. Reads come from the live thread
+ * graph; writes go through the same commands as the UI, so they update
+ * frontmatter and any open Thread views.
+ */
+export class ThreadNotesApi {
+    private plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Get a note's node, or null if the graph doesn't know the path
+     */
+    getNode(path: string): ThreadNode | null {
+        return this.plugin.graph.getNode(path);
+    }
+
+    /**
+     * Get a note's prev edge (explicit) and next edges (implied)
+     */
+    getEdges(path: string): ThreadEdge[] {
+        return this.plugin.graph.getEdges(path);
+    }
+
+    /**
+     * Get the main thread a note belongs to, from root to end
+     */
+    getThread(path: string): string[] {
+        return this.plugin.graph.getFullThread(path);
+    }
+
+    getRoot(path: string): string {
+        return this.plugin.graph.getThreadRoot(path);
+    }
+
+    /**
+     * Get the notes before a note, nearest first
+     */
+    getAncestors(path: string): string[] {
+        return this.plugin.graph.getAncestors(path);
+    }
+
+    /**
+     * Get every note below a note: continuations and replies, nested
+     */
+    getDescendants(path: string): string[] {
+        return this.plugin.graph.getDescendants(path);
+    }
+
+    /**
+     * Get the direct replies of a note in the default reply order
+     */
+    getReplies(path: string): string[] {
+        return this.plugin.graph.getReplies(path).sort(this.getComparator());
+    }
+
+    /**
+     * Get each reply of a note with the notes continuing it, in the default reply order
+     */
+    getReplyChains(path: string): string[][] {
+        const compare = this.getComparator();
+        return this.plugin.graph.getReplyChains(path).sort((a, b) => compare(a[0], b[0]));
+    }
+
+    /**
+     * Create a reply to a note
+     */
+    createReply(path: string, content?: string): Promise<TFile | null> {
+        return createThreadNote(this.plugin, path, { isMain: false, content });
+    }
+
+    /**
+     * Continue the main thread after a note (at the end of its main chain)
+     */
+    continueThread(path: string, content?: string): Promise<TFile | null> {
+        return createThreadNote(this.plugin, getContinuationParent(this.plugin, path), { isMain: true, content });
+    }
+
+    /**
+     * Attach a note and its chain to another note, or detach it into its own
+     * thread when target is null. Resolves to false if it would create a cycle.
+     */
+    reparent(path: string, target: string | null): Promise<boolean> {
+        return reparentNote(this.plugin, path, target);
+    }
+
+    private getComparator(): (a: string, b: string) => number {
+        const { app, graph, settings } = this.plugin;
+        return createNoteComparator(app, graph, settings.replySortOrder, settings.sortProperties);
+    }
+}
@@ -0,0 +1,104 @@
+import { TFile, moment } from 'obsidian';
+import { formatPrevLink } from '../utils/threadFrontmatter';
+import { ensureFolder, getAvailablePath, joinPath } from '../utils/paths';
+import type MyPlugin from '../main';
+
+export type NewNoteNamePattern = 'timestamp' | 'counter' | 'first-line';
+
+export interface CreateThreadNoteOptions {
+    /** Mark the new note as the main continuation */
+    isMain: boolean;
+    /** Initial body of the new note */
+    content?: string;
+    /** File name to use instead of the configured pattern */
+    baseName?: string;
+}
+
+// Characters Obsidian does not allow in file names
+const ILLEGAL_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Turn a line of text into a usable file name (may return '')
+ */
+export function sanitizeFileName(text: string): string {
+    return text
+        .replace(/^#+\s*/, '')
+        .replace(ILLEGAL_FILENAME_CHARS, '')
+        .trim()
+        .slice(0, 50)
+        .trim();
+}
+
+/**
+ * Build the base filename for a new note according to the configured pattern
+ */
+function getBaseName(plugin: MyPlugin, parent: TFile, folder: string, content: string): string {
+    const timestamp = moment().format(plugin.settings.newNoteDateFormat);
+
+    switch (plugin.settings.newNoteNamePattern) {
+        case 'first-line': {
+            const firstLine = content
+                .split('\n')
+                .map(sanitizeFileName)
+                .find(line => line.length > 0);
+            return firstLine ?? timestamp;
+        }
+        case 'counter': {
+            // Number notes after the thread root: "Root 1", "Root 2", ...
+            const rootPath = plugin.graph.getThreadRoot(parent.path);
+            const rootName = rootPath.split('/').pop()?.replace(/\.md$/, '') ?? parent.basename;
+            let counter = 1;
+            while (plugin.app.vault.getAbstractFileByPath(joinPath(folder, `${rootName} ${counter}.md`))) {
+                counter++;
+            }
+            return `${rootName} ${counter}`;
+        }
+        default:
+            return timestamp;
+    }
+}
+
+/**
+ * Create a new note whose prev points at the given parent note.
+ * The graph is patched right away so open Thread views pick it up
+ * without waiting for the metadata cache.
+ */
+export async function createThreadNote(
+    plugin: MyPlugin,
+    parentPath: string,
+    options: CreateThreadNoteOptions
+): Promise<TFile | null> {
+    const { app, graph } = plugin;
+    const parent = app.vault.getAbstractFileByPath(parentPath);
+    if (!(parent instanceof TFile)) return null;
+
+    // Configured folder, or next to the parent note
+    const folder = await ensureFolder(app, plugin.settings.newNoteFolder || parent.parent?.path || '');
+
+    const content = options.content ?? '';
+    const baseName = options.baseName ?? getBaseName(plugin, parent, folder, content);
+    const path = getAvailablePath(app, folder, baseName);
+
+    const frontmatter = [
+        '---',
+        `${plugin.settings.prevKey}: "${formatPrevLink(app, parent, path)}"`,
+        ...(options.isMain ? [`${plugin.settings.threadKey}: true`] : []),
+        '---',
+        '',
+    ].join('\n');
+
+    const file = await app.vault.create(path, frontmatter + content);
+    graph.updateNode(file.path, parent.path, options.isMain);
+
+    return file;
+}
+
+/**
+ * Get the note a continuation should attach to: the end of the main chain
+ * starting at the given note, so continuing never competes with an existing
+ * main continuation.
+ */
+export function getContinuationParent(plugin: MyPlugin, path: string): string {
+    const chain = plugin.graph.getChainFromNote(path);
+    return chain[chain.length - 1];
+}
@@ -0,0 +1,266 @@
+import { App, Component, MarkdownRenderer, Notice, TFile, arrayBufferToBase64 } from 'obsidian';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { getAvailablePath } from '../utils/paths';
+import type MyPlugin from '../main';
+
+export type ExportFormat = 'html' | 'markdown';
+
+/**
+ * A note in the exported tree with the reply chains hanging off it
+ */
+interface ExportEntry {
+    file: TFile;
+    body: string;
+    replies: ExportEntry[][];
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+    avif: 'image/avif',
+};
+
+const WIKI_EMBED_REGEX = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+const MD_EMBED_REGEX = /!\[([^\]]*)\]\((?!https?:|data:)([^)\s]+)\)/g;
+const WIKI_LINK_REGEX = /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+
+const EXPORT_CSS = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; line-height: 1.6; color: #222; background: #fafafa; margin: 0; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+.thread-note { background: #fff; border: 1px solid #e0e0e0; border-radius: 6px; padding: 16px 20px; margin-bottom: 12px; }
+.thread-note-title { font-size: 0.85em; color: #777; margin: 0 0 8px; }
+.thread-replies { margin-left: 24px; padding-left: 12px; border-left: 2px solid #ddd; }
+.thread-reply-chain { margin-bottom: 12px; }
+img { max-width: 100%; }
+pre { background: #f4f4f4; padding: 8px; overflow: auto; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 12px; color: #555; }
+`;
+
+/**
+ * Walk a chain forward, collecting nested reply chains for every note.
+ * Visited notes are skipped so cycles cannot recurse forever.
+ */
+async function collectChain(plugin: MyPlugin, chainPaths: string[], visited: Set<string>): Promise<ExportEntry[]> {
+    const { app, graph } = plugin;
+    const entries: ExportEntry[] = [];
+
+    for (const path of chainPaths) {
+        if (visited.has(path)) continue;
+        visited.add(path);
+
+        const file = app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) continue;
+
+        const { body } = extractFrontmatter(await app.vault.read(file));
+        const replies: ExportEntry[][] = [];
+        for (const replyChain of graph.getReplyChains(path)) {
+            const chain = await collectChain(plugin, replyChain, visited);
+            if (chain.length > 0) replies.push(chain);
+        }
+
+        entries.push({ file, body, replies });
+    }
+
+    return entries;
+}
+
+function getAnchorId(path: string): string {
+    return 'note-' + path.replace(/\.md$/, '').replace(/[^\w-]+/g, '-').toLowerCase();
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Read an image from the vault as a data URI, or null if it isn't an image
+ */
+async function getImageDataUri(app: App, link: string, sourcePath: string): Promise<string | null> {
+    const file = app.metadataCache.getFirstLinkpathDest(decodeURI(link), sourcePath);
+    if (!file) return null;
+
+    const mime = IMAGE_MIME_TYPES[file.extension.toLowerCase()];
+    if (!mime) return null;
+
+    const data = await app.vault.readBinary(file);
+    return `data:${mime};base64,${arrayBufferToBase64(data)}`;
+}
+
+/**
+ * Make a note body stand on its own: inline images as data URIs and
+ * rewrite internal links to anchors (HTML) or plain text
+ */
+async function rewriteBody(
+    app: App,
+    body: string,
+    sourcePath: string,
+    exported: Set<string>,
+    format: ExportFormat
+): Promise<string> {
+    // Collect replacements first, since they are async
+    const replacements = new Map<string, string>();
+
+    for (const match of body.matchAll(WIKI_EMBED_REGEX)) {
+        const dataUri = await getImageDataUri(app, match[1], sourcePath);
+        replacements.set(match[0], dataUri
+            ? `![${match[2] ?? ''}](${dataUri})`
+            : (match[2] ?? match[1]));
+    }
+    for (const match of body.matchAll(MD_EMBED_REGEX)) {
+        const dataUri = await getImageDataUri(app, match[2], sourcePath);
+        if (dataUri) {
+            replacements.set(match[0], `![${match[1]}](${dataUri})`);
+        }
+    }
+
+    let result = body;
+    for (const [from, to] of replacements) {
+        result = result.split(from).join(to);
+    }
+
+    return result.replace(WIKI_LINK_REGEX, (_, link: string, alias?: string) => {
+        const label = alias ?? link;
+        const target = app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+        if (format === 'html' && target && exported.has(target.path)) {
+            return `[${label}](#${getAnchorId(target.path)})`;
+        }
+        return label;
+    });
+}
+
+function collectPaths(entries: ExportEntry[], paths: Set<string>): Set<string> {
+    for (const entry of entries) {
+        paths.add(entry.file.path);
+        entry.replies.forEach(chain => collectPaths(chain, paths));
+    }
+    return paths;
+}
+
+/**
+ * Render a chain as nested Markdown, replies as deeper blockquotes
+ */
+async function renderMarkdownChain(
+    app: App,
+    entries: ExportEntry[],
+    depth: number,
+    exported: Set<string>
+): Promise<string> {
+    const prefix = '> '.repeat(depth);
+    const quote = (text: string) => text
+        .split('\n')
+        .map(line => (prefix + line).trimEnd())
+        .join('\n');
+
+    const parts: string[] = [];
+    for (const entry of entries) {
+        const body = await rewriteBody(app, entry.body.trim(), entry.file.path, exported, 'markdown');
+        parts.push(quote(`**${entry.file.basename}**\n\n${body}`));
+
+        for (const chain of entry.replies) {
+            parts.push(await renderMarkdownChain(app, chain, depth + 1, exported));
+        }
+    }
+
+    return parts.join(`\n${prefix.trimEnd()}\n`);
+}
+
+/**
+ * Render a chain as HTML, replies nested in indented containers
+ */
+async function renderHtmlChain(
+    app: App,
+    entries: ExportEntry[],
+    exported: Set<string>,
+    component: Component
+): Promise<HTMLElement> {
+    const chainEl = createDiv({ cls: 'thread-chain' });
+
+    for (const entry of entries) {
+        const noteEl = chainEl.createEl('article', {
+            cls: 'thread-note',
+            attr: { id: getAnchorId(entry.file.path) },
+        });
+        noteEl.createEl('h2', { cls: 'thread-note-title', text: entry.file.basename });
+
+        const bodyEl = noteEl.createDiv({ cls: 'thread-note-body' });
+        const markdown = await rewriteBody(app, entry.body, entry.file.path, exported, 'html');
+        await MarkdownRenderer.render(app, markdown, bodyEl, entry.file.path, component);
+
+        // Obsidian renders same-page links as internal links; make them plain anchors
+        bodyEl.querySelectorAll('a[data-href^="#note-"]').forEach((link) => {
+            link.setAttribute('href', link.getAttribute('data-href') ?? '');
+            link.removeAttribute('target');
+        });
+
+        if (entry.replies.length > 0) {
+            const repliesEl = chainEl.createDiv({ cls: 'thread-replies' });
+            for (const chain of entry.replies) {
+                const replyEl = await renderHtmlChain(app, chain, exported, component);
+                replyEl.addClass('thread-reply-chain');
+                repliesEl.appendChild(replyEl);
+            }
+        }
+    }
+
+    return chainEl;
+}
+
+/**
+ * Export the whole thread tree of a note (root, main chain and all nested
+ * replies) to a single self-contained file next to the thread root.
+ */
+export async function exportThread(plugin: MyPlugin, path: string, format: ExportFormat): Promise<TFile | null> {
+    const { app, graph } = plugin;
+
+    await plugin.flushThreadViews();
+    const entries = await collectChain(plugin, graph.getFullThread(path), new Set());
+    if (entries.length === 0) return null;
+
+    const root = entries[0].file;
+    const exported = collectPaths(entries, new Set());
+    const title = root.basename;
+
+    let content: string;
+    if (format === 'html') {
+        const component = new Component();
+        component.load();
+        try {
+            const chainEl = await renderHtmlChain(app, entries, exported, component);
+            content = [
+                '<!DOCTYPE html>',
+                '<html>',
+                '<head>',
+                '<meta charset="utf-8">',
+                '<meta name="viewport" content="width=device-width, initial-scale=1">',
+                `<title>${escapeHtml(title)}</title>`,
+                `<style>${EXPORT_CSS}</style>`,
+                '</head>',
+                '<body>',
+                `<main><h1>${escapeHtml(title)}</h1>${chainEl.outerHTML}</main>`,
+                '</body>',
+                '</html>',
+            ].join('\n');
+        } finally {
+            component.unload();
+        }
+    } else {
+        content = `# ${title}\n\n${await renderMarkdownChain(app, entries, 0, exported)}\n`;
+    }
+
+    const folder = root.parent?.path === '/' ? '' : root.parent?.path ?? '';
+    const extension = format === 'html' ? 'html' : 'md';
+    const exportPath = getAvailablePath(app, folder, `${title} (export)`, extension);
+    const file = await app.vault.create(exportPath, content);
+
+    new Notice(`Exported thread to ${file.path}`);
+    return file;
+}
@@ -0,0 +1,116 @@
+import { Notice, TFile } from 'obsidian';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { setPrevLink } from '../utils/threadFrontmatter';
+import { ensureFolder, getAvailablePath, joinPath } from '../utils/paths';
+import type MyPlugin from '../main';
+
+export type OriginalNotesAction = 'keep' | 'archive' | 'delete';
+
+export interface MergeThreadOptions {
+    /** Start each note's section with a heading of its title */
+    headings: boolean;
+    /** Put a horizontal rule between notes */
+    separators: boolean;
+    /** Add a link back to each source note */
+    sourceLinks: boolean;
+    /** Point every reply chain of the thread at the merged note */
+    repointReplies: boolean;
+    /** What to do with the notes that were merged */
+    originals: OriginalNotesAction;
+    /** Folder for archived notes */
+    archiveFolder: string;
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeThreadOptions = {
+    headings: true,
+    separators: false,
+    sourceLinks: false,
+    repointReplies: true,
+    originals: 'keep',
+    archiveFolder: 'Archive',
+};
+
+function getFile(plugin: MyPlugin, path: string): TFile | null {
+    const file = plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+}
+
+/**
+ * Concatenate the main thread of a note into one new note.
+ * Returns the merged note.
+ */
+export async function mergeThread(
+    plugin: MyPlugin,
+    path: string,
+    options: MergeThreadOptions
+): Promise<TFile | null> {
+    const { app, graph } = plugin;
+    await plugin.flushThreadViews();
+
+    const files = graph.getFullThread(path)
+        .map(p => getFile(plugin, p))
+        .filter((f): f is TFile => f !== null);
+
+    if (files.length < 2) {
+        new Notice('Nothing to merge: this note is not part of a thread.');
+        return null;
+    }
+
+    const root = files[0];
+    const folder = root.parent?.path === '/' ? '' : root.parent?.path ?? '';
+    const mergedPath = getAvailablePath(app, folder, `${root.basename} (merged)`);
+
+    // The merged note keeps the root's properties
+    const sections: string[] = [];
+    let frontmatter = '';
+    for (const file of files) {
+        const content = await app.vault.read(file);
+        const extracted = extractFrontmatter(content);
+        if (file === root) {
+            frontmatter = extracted.frontmatter;
+        }
+
+        let section = '';
+        if (options.headings) {
+            section += `## ${file.basename}\n\n`;
+        }
+        section += extracted.body.trim();
+        if (options.sourceLinks) {
+            section += `\n\n*Source: ${app.fileManager.generateMarkdownLink(file, mergedPath)}*`;
+        }
+        sections.push(section);
+    }
+
+    const separator = options.separators ? '\n\n---\n\n' : '\n\n';
+    const merged = await app.vault.create(mergedPath, frontmatter + sections.join(separator) + '\n');
+
+    // Replies hanging off any note of the thread now hang off the merged note
+    if (options.repointReplies) {
+        for (const file of files) {
+            for (const chain of graph.getReplyChains(file.path)) {
+                const reply = getFile(plugin, chain[0]);
+                if (reply) {
+                    await setPrevLink(app, plugin.settings, reply, merged);
+                }
+            }
+        }
+    }
+
+    if (options.originals === 'archive') {
+        const archiveFolder = await ensureFolder(app, options.archiveFolder);
+        for (const file of files) {
+            let target = joinPath(archiveFolder, file.name);
+            if (app.vault.getAbstractFileByPath(target)) {
+                target = getAvailablePath(app, archiveFolder, file.basename);
+            }
+            await app.fileManager.renameFile(file, target);
+        }
+    } else if (options.originals === 'delete') {
+        for (const file of files) {
+            await app.fileManager.trashFile(file);
+        }
+    }
+
+    new Notice(`Merged ${files.length} notes into ${merged.basename}.`);
+    return merged;
+}
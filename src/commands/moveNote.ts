@@ -0,0 +1,122 @@
+import { Notice, TFile } from 'obsidian';
+import { writeThreadLinks } from '../utils/threadFrontmatter';
+import { updateGraphNode } from '../graph';
+import type { MovePosition, PrevRewrite } from '../graph';
+import type MyPlugin from '../main';
+
+/**
+ * Apply planned rewrites: patch the graph first so every view sees the
+ * whole move at once, then write each note's frontmatter.
+ * If a write fails, the notes not yet written are patched back to what their
+ * frontmatter says, so the graph matches the disk again.
+ */
+export async function applyRewrites(plugin: MyPlugin, rewrites: PrevRewrite[]): Promise<void> {
+    const { app, graph } = plugin;
+
+    for (const rewrite of rewrites) {
+        graph.updateNode(rewrite.path, rewrite.prev, rewrite.isMain, rewrite.prev === null || graph.hasNode(rewrite.prev));
+    }
+
+    let written = 0;
+    try {
+        for (const rewrite of rewrites) {
+            const file = app.vault.getAbstractFileByPath(rewrite.path);
+            if (file instanceof TFile) {
+                await writeThreadLinks(app, plugin.settings, file, rewrite.prev, rewrite.isMain);
+            }
+            written++;
+        }
+    } catch (error) {
+        for (const rewrite of rewrites.slice(written)) {
+            const file = app.vault.getAbstractFileByPath(rewrite.path);
+            if (file instanceof TFile) {
+                updateGraphNode(app, graph, file, plugin.settings);
+            }
+        }
+        throw error;
+    }
+}
+
+/**
+ * Tell the user a move failed part-way, e.g. because a note couldn't be written.
+ * For the `.catch` of move commands started from the UI.
+ */
+export function reportMoveFailure(error: unknown): void {
+    console.error('Moving thread note failed:', error);
+    new Notice('Could not move the note, see console for details.');
+}
+
+/**
+ * Move a note before or after another note in its chain, or make it a reply.
+ * Returns false if the move was refused.
+ */
+export async function moveNote(
+    plugin: MyPlugin,
+    path: string,
+    target: string,
+    position: MovePosition
+): Promise<boolean> {
+    const rewrites = plugin.graph.planMove(path, target, position);
+    if (!rewrites) {
+        new Notice('Cannot move the note there: it would create a loop in the thread.');
+        return false;
+    }
+    if (rewrites.length === 0) return false;
+
+    await applyRewrites(plugin, rewrites);
+    return true;
+}
+
+/**
+ * Attach a note and everything after it to another note,
+ * or detach it into its own thread when target is null.
+ * Returns false if the move was refused.
+ */
+export async function reparentNote(plugin: MyPlugin, path: string, target: string | null): Promise<boolean> {
+    const rewrites = plugin.graph.planReparent(path, target);
+    if (!rewrites) {
+        const name = (p: string) => p.split('/').pop()?.replace(/\.md$/, '') ?? p;
+        new Notice(
+            target === path
+                ? 'A note cannot be its own prev.'
+                : `Cannot move ${name(path)} under ${name(target as string)}: ` +
+                  `${name(target as string)} already comes after it in the thread, so this would create a loop.`
+        );
+        return false;
+    }
+
+    await applyRewrites(plugin, rewrites);
+    return true;
+}
+
+/**
+ * Make a reply the main continuation of its parent
+ */
+export async function promoteToMain(plugin: MyPlugin, path: string): Promise<void> {
+    await applyRewrites(plugin, plugin.graph.planPromote(path));
+}
+
+/**
+ * Turn a main continuation into a reply, promoting the sibling the fallback
+ * main continuation would pick next
+ */
+export async function demoteToReply(plugin: MyPlugin, path: string): Promise<void> {
+    const rewrites = plugin.graph.planDemote(path);
+    if (rewrites.length === 0) {
+        new Notice('This note has no siblings to take its place in the main thread.');
+        return;
+    }
+    await applyRewrites(plugin, rewrites);
+}
+
+/**
+ * Set or clear a note's main-thread marker. Marking a note clears the
+ * marker on its siblings so only one branch competes for the main thread.
+ */
+export async function setMainMarker(plugin: MyPlugin, path: string, isMain: boolean): Promise<void> {
+    if (isMain) {
+        await promoteToMain(plugin, path);
+        return;
+    }
+    await applyRewrites(plugin, [{ path, prev: plugin.graph.getPrev(path), isMain: false }]);
+}
@@ -0,0 +1,189 @@
+import { MarkdownView, Notice, TFile } from 'obsidian';
+import { createThreadNote, sanitizeFileName } from './createThreadNote';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { setPrevLink } from '../utils/threadFrontmatter';
+import { ThreadView } from '../views/ThreadView';
+import { SplitRepliesModal } from '../modals/SplitRepliesModal';
+import type MyPlugin from '../main';
+
+export type SplitBoundary = 'headings' | 'separators' | 'cursor';
+
+/**
+ * Note to split, and the cursor offset within its body (if known)
+ */
+export interface SplitTarget {
+    file: TFile;
+    cursorOffset: number | null;
+}
+
+interface Fragment {
+    /** Heading that starts the fragment, used for its file name */
+    title: string | null;
+    body: string;
+}
+
+const HEADING_REGEX = /^#{1,2}\s+(.*)$/;
+const SEPARATOR_REGEX = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Split a body into fragments at heading or separator lines,
+ * ignoring anything inside fenced code blocks
+ */
+function splitByLines(body: string, boundary: 'headings' | 'separators'): Fragment[] {
+    const fragments: Fragment[] = [{ title: null, body: '' }];
+    let inFence = false;
+
+    for (const line of body.split('\n')) {
+        if (FENCE_REGEX.test(line)) {
+            inFence = !inFence;
+        }
+
+        if (!inFence && boundary === 'headings') {
+            const match = line.match(HEADING_REGEX);
+            if (match) {
+                fragments.push({ title: match[1], body: line + '\n' });
+                continue;
+            }
+        }
+
+        if (!inFence && boundary === 'separators' && SEPARATOR_REGEX.test(line)) {
+            // The separator itself is dropped
+            fragments.push({ title: null, body: '' });
+            continue;
+        }
+
+        fragments[fragments.length - 1].body += line + '\n';
+    }
+
+    return fragments;
+}
+
+/**
+ * Split a body into fragments at the chosen boundary.
+ * Empty fragments are dropped.
+ */
+export function splitBody(body: string, boundary: SplitBoundary, cursorOffset: number | null): Fragment[] {
+    let fragments: Fragment[];
+
+    if (boundary === 'cursor') {
+        if (cursorOffset === null) return [{ title: null, body }];
+        fragments = [
+            { title: null, body: body.slice(0, cursorOffset) },
+            { title: null, body: body.slice(cursorOffset) },
+        ];
+    } else {
+        fragments = splitByLines(body, boundary);
+    }
+
+    return fragments
+        .map(f => ({ ...f, body: f.body.replace(/^\n+/, '').replace(/\s+$/, '') + '\n' }))
+        .filter(f => f.body.trim().length > 0);
+}
+
+/**
+ * Find the note to split and the cursor position in the active view
+ */
+export function getSplitTarget(plugin: MyPlugin): SplitTarget | null {
+    const { workspace, vault } = plugin.app;
+
+    const threadView = workspace.getActiveViewOfType(ThreadView);
+    if (threadView) {
+        const path = threadView.getFocusedPath() ?? threadView.file?.path;
+        const file = path ? vault.getAbstractFileByPath(path) : null;
+        if (!(file instanceof TFile)) return null;
+
+        // Thread editors only hold the body, so offsets are already body-relative
+        const editor = threadView.getFocusedEditor();
+        const cursorOffset = editor ? editor.posToOffset(editor.getCursor()) : null;
+        return { file, cursorOffset };
+    }
+
+    const markdownView = workspace.getActiveViewOfType(MarkdownView);
+    if (markdownView?.file) {
+        const { editor } = markdownView;
+        const { frontmatter } = extractFrontmatter(editor.getValue());
+        const offset = editor.posToOffset(editor.getCursor()) - frontmatter.length;
+        return { file: markdownView.file, cursorOffset: offset >= 0 ? offset : null };
+    }
+
+    const file = workspace.getActiveFile();
+    return file ? { file, cursorOffset: null } : null;
+}
+
+/**
+ * Label a fragment for the reply picker: its heading, or else its first line
+ */
+function getFragmentLabel(fragment: Fragment, index: number): string {
+    const text = fragment.title ?? fragment.body.trim().split('\n')[0];
+    const short = text.length > 40 ? text.slice(0, 40) + '…' : text;
+    return `${index + 1}. ${short}`;
+}
+
+/**
+ * Split a note into a chain of notes. The original note keeps its frontmatter
+ * and the first fragment. Its main continuation moves to the last fragment,
+ * since it followed the note's full text; the user picks the fragment each
+ * reply attaches to.
+ */
+export async function splitNote(plugin: MyPlugin, target: SplitTarget, boundary: SplitBoundary): Promise<void> {
+    const { app, graph } = plugin;
+    const { file } = target;
+
+    await plugin.flushThreadViews();
+    const content = await app.vault.read(file);
+    const { frontmatter, body } = extractFrontmatter(content);
+    const fragments = splitBody(body, boundary, target.cursorOffset);
+
+    if (fragments.length < 2) {
+        new Notice('Nothing to split: no boundaries found.');
+        return;
+    }
+
+    // Remember children before new fragments are attached to the note
+    // (getReplies returns a fresh list, unlike getNext)
+    const continuation = graph.getMainContinuation(file.path);
+    const replies = graph.getReplies(file.path);
+
+    let replyFragments = new Map<string, number>();
+    if (replies.length > 0) {
+        const choices = await SplitRepliesModal.prompt(app, replies, fragments.map(getFragmentLabel));
+        if (!choices) return;
+        replyFragments = choices;
+    }
+
+    await app.vault.modify(file, frontmatter + fragments[0].body);
+
+    const notes = [file];
+    for (let i = 1; i < fragments.length; i++) {
+        const fragment = fragments[i];
+        const title = fragment.title ? sanitizeFileName(fragment.title) : '';
+        const created = await createThreadNote(plugin, notes[i - 1].path, {
+            isMain: true,
+            content: fragment.body,
+            baseName: title || `${file.basename} ${i + 1}`,
+        });
+        if (!created) return;
+        notes.push(created);
+    }
+
+    const targets = new Map(replyFragments);
+    if (continuation) targets.set(continuation, notes.length - 1);
+
+    for (const [childPath, index] of targets) {
+        const child = app.vault.getAbstractFileByPath(childPath);
+        if (child instanceof TFile && index > 0) {
+            await setPrevLink(app, plugin.settings, child, notes[index]);
+        }
+    }
+
+    new Notice(`Split ${file.basename} into ${fragments.length} notes.`);
+
+    // Show the result as a thread
+    const leaf = app.workspace.getMostRecentLeaf();
+    if (leaf?.view instanceof MarkdownView && leaf.view.file === file) {
+        await plugin.setThreadView(leaf);
+    } else if (!(leaf?.view instanceof ThreadView)) {
+        await app.workspace.getLeaf(false).openFile(file);
+    }
+}
@@ -0,0 +1,61 @@
+import { useContext, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Keymap } from 'obsidian';
+import { ThreadContext } from './context';
+
+interface ComposerProps {
+    /** Note the new entry continues from */
+    parentPath: string;
+    placeholder?: string;
+}
+
+/**
+ * Chat-style input that appends a new note as the main continuation of parentPath.
+ * Mod+Enter sends; focus stays in the composer for quick journaling.
+ */
+export function Composer({ parentPath, placeholder }: ComposerProps) {
+    const context = useContext(ThreadContext);
+    const [text, setText] = useState('');
+    const [sending, setSending] = useState(false);
+
+    const send = async () => {
+        if (!context || sending || text.trim().length === 0) return;
+
+        // Keep the text if the note couldn't be created (the view reports why)
+        setSending(true);
+        try {
+            if (await context.view.createNote(parentPath, true, text, false)) {
+                setText('');
+            }
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const onKeyDown = (evt: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (evt.key === 'Enter' && Keymap.isModifier(evt.nativeEvent, 'Mod')) {
+            evt.preventDefault();
+            send();
+        }
+    };
+
+    return (
+        <div className="thread-composer">
+            <textarea
+                className="thread-composer-input"
+                value={text}
+                placeholder={placeholder ?? 'Write a new entry…'}
+                disabled={sending}
+                onChange={(evt) => setText(evt.target.value)}
+                onKeyDown={onKeyDown}
+            />
+            <button
+                className="thread-composer-send mod-cta"
+                disabled={sending || text.trim().length === 0}
+                onClick={send}
+            >
+                Send
+            </button>
+        </div>
+    );
+}
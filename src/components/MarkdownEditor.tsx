@@ -1,7 +1,9 @@
-import { EditorView, ViewUpdate } from '@codemirror/view';
+import { Prec } from '@codemirror/state';
+import { EditorView, ViewUpdate, keymap } from '@codemirror/view';
 import { useContext, useEffect, useRef } from 'react';
 import { Platform } from 'obsidian';
 import { ThreadContext } from './context';
+import { searchHighlightField } from './searchHighlight';
 
 interface MarkdownEditorProps {
     value: string;
@@ -32,13 +34,29 @@ export function getEditorClass(app: any) {
     return MarkdownEditor;
 }
 
+/**
+ * Check if the cursor sits on the first (or last) visual line of the editor,
+ * so arrow keys can't move it any further
+ */
+function isCursorOnEdgeLine(cm: EditorView, forward: boolean): boolean {
+    const { main } = cm.state.selection;
+    if (!main.empty) return false;
+
+    const edge = forward ? cm.state.doc.length : 0;
+    const cursorCoords = cm.coordsAtPos(main.head);
+    const edgeCoords = cm.coordsAtPos(edge);
+    if (!cursorCoords || !edgeCoords) return false;
+
+    return Math.abs(cursorCoords.top - edgeCoords.top) < 1;
+}
+
 /**
  * Create a markdown controller object for the editor.
  */
 function getMarkdownController(view: any, getEditor: () => any): Record<any, any> {
     return {
         app: view.app,
-        showSearch: () => { },
+        showSearch: (replace?: boolean) => view.openSearch(!!replace),
         toggleMode: () => { },
         onMarkdownScroll: () => { },
         getMode: () => 'source',
@@ -129,6 +147,23 @@ export function MarkdownEditor({ value, filePath, isCurrent, onChange }: Markdow
                     })
                 );
 
+                // Find-in-thread highlights, set by the view
+                extensions.push(searchHighlightField);
+
+                // Arrow keys at the top or bottom flow into the adjacent note
+                extensions.push(
+                    Prec.high(keymap.of([
+                        {
+                            key: 'ArrowUp',
+                            run: (cm) => isCursorOnEdgeLine(cm, false) && view.navigate('previous', filePath),
+                        },
+                        {
+                            key: 'ArrowDown',
+                            run: (cm) => isCursorOnEdgeLine(cm, true) && view.navigate('next', filePath),
+                        },
+                    ]))
+                );
+
                 return extensions;
             }
         }
@@ -143,8 +178,10 @@ export function MarkdownEditor({ value, filePath, isCurrent, onChange }: Markdow
 
         // Set initial content
         editor.set(value || '');
+        view.registerEditor(filePath, editor);
 
         return () => {
+            view.unregisterEditor(filePath, editor);
             if (Platform.isMobile) {
                 if (view.activeEditor === controller) {
                     view.activeEditor = null;
@@ -155,14 +192,36 @@ export function MarkdownEditor({ value, filePath, isCurrent, onChange }: Markdow
         };
     }, [filePath]); // Re-create editor when filePath changes
 
-    // Update content when value prop changes (if needed)
+    // Update content when value prop changes (e.g. edited in another pane)
     useEffect(() => {
-        if (editorRef.current && value !== undefined) {
-            const currentValue = editorRef.current.editor?.getValue() || '';
-            if (currentValue !== value) {
-                editorRef.current.set(value);
-            }
+        if (!editorRef.current || value === undefined) return;
+
+        const cm: EditorView = editorRef.current.cm;
+        const currentValue = cm.state.doc.toString();
+        if (currentValue === value) return;
+
+        // Replace only the differing range so selection and scroll survive
+        let start = 0;
+        const maxPrefix = Math.min(currentValue.length, value.length);
+        while (start < maxPrefix && currentValue[start] === value[start]) {
+            start++;
         }
+        let end = 0;
+        const maxSuffix = maxPrefix - start;
+        while (
+            end < maxSuffix &&
+            currentValue[currentValue.length - 1 - end] === value[value.length - 1 - end]
+        ) {
+            end++;
+        }
+
+        cm.dispatch({
+            changes: {
+                from: start,
+                to: currentValue.length - end,
+                insert: value.slice(start, value.length - end),
+            },
+        });
     }, [value]);
 
     const className = `thread-markdown-editor${isCurrent ? ' is-current-note' : ''}`;
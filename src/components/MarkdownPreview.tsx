@@ -0,0 +1,64 @@
+import { useContext, useEffect, useRef } from 'react';
+import type { MouseEvent } from 'react';
+import { Component, Keymap, MarkdownRenderer } from 'obsidian';
+import { ThreadContext } from './context';
+
+interface MarkdownPreviewProps {
+    value: string;
+    filePath: string;
+    isCurrent?: boolean;
+}
+
+/**
+ * A note rendered like reading view. Clicking it switches the note to an
+ * editor; links inside it are followed instead.
+ */
+export function MarkdownPreview({ value, filePath, isCurrent }: MarkdownPreviewProps) {
+    const context = useContext(ThreadContext);
+    const elRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const el = elRef.current;
+        if (!context || !el) return;
+
+        // Embeds and post-processors are children of this component,
+        // so they're cleaned up on every re-render. Each run renders into its
+        // own element, so a slow earlier render can't append to a newer one.
+        const component = new Component();
+        component.load();
+        const target = el.createDiv();
+        MarkdownRenderer.render(context.app, value, target, filePath, component).catch((error) => {
+            console.error(`Thread notes: could not render ${filePath}:`, error);
+        });
+
+        return () => {
+            component.unload();
+            target.remove();
+        };
+    }, [context, value, filePath]);
+
+    const onClick = (evt: MouseEvent<HTMLDivElement>) => {
+        if (!context) return;
+        const target = evt.target as HTMLElement;
+
+        // Rendered internal links aren't wired up outside reading view
+        const internalLink = target.closest('a.internal-link');
+        if (internalLink) {
+            evt.preventDefault();
+            const linktext = internalLink.getAttribute('data-href') ?? internalLink.getAttribute('href') ?? '';
+            context.app.workspace.openLinkText(linktext, filePath, Keymap.isModEvent(evt.nativeEvent));
+            return;
+        }
+
+        // Other links, checkboxes and embeds handle their own clicks
+        if (target.closest('a, input, button, .internal-embed')) return;
+
+        // Keep text selectable: only a plain click starts editing
+        if (window.getSelection()?.toString()) return;
+
+        context.view.editNote(filePath);
+    };
+
+    const className = `thread-markdown-preview markdown-rendered${isCurrent ? ' is-current-note' : ''}`;
+    return <div className={className} data-path={filePath} ref={elRef} onClick={onClick}></div>;
+}
@@ -0,0 +1,168 @@
+import { useContext, useEffect, useRef, useState } from 'react';
+import type { DragEvent } from 'react';
+import { ThreadContext } from './context';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MarkdownPreview } from './MarkdownPreview';
+import { useNearViewport } from './useNearViewport';
+import { PropertiesPanel } from './PropertiesPanel';
+import { NoteHeader } from './NoteHeader';
+import { demoteToReply, moveNote, reportMoveFailure } from '../commands/moveNote';
+import type { MovePosition } from '../graph';
+import type { NoteContent } from '../views/types';
+
+// Drag payload type for notes dragged between cards
+const NOTE_DRAG_TYPE = 'application/x-thread-note';
+
+interface NoteCardProps {
+    note: NoteContent;
+    isCurrent: boolean;
+    onContentChange: (body: string, filePath: string) => void;
+}
+
+/**
+ * Work out the drop position from where the pointer is over the card:
+ * top quarter inserts before, bottom quarter after, the middle makes a reply
+ */
+function getDropPosition(evt: DragEvent<HTMLElement>): MovePosition {
+    const rect = evt.currentTarget.getBoundingClientRect();
+    const offset = (evt.clientY - rect.top) / rect.height;
+    if (offset < 0.25) return 'before';
+    if (offset > 0.75) return 'after';
+    return 'reply';
+}
+
+/**
+ * A single note in a thread: header, properties, editor and per-note actions
+ */
+export function NoteCard({ note, isCurrent, onContentChange }: NoteCardProps) {
+    const context = useContext(ThreadContext);
+    const [dropPosition, setDropPosition] = useState<MovePosition | null>(null);
+    const cardRef = useRef<HTMLDivElement>(null);
+
+    // Only notes near the viewport get a (heavy) editor; the focused one is kept
+    const isNear = useNearViewport(cardRef, {
+        root: context?.view.contentEl ?? null,
+        keep: () => !!cardRef.current?.contains(document.activeElement),
+        onLeave: (height) => context?.view.setNoteHeight(note.path, height),
+    });
+
+    useEffect(() => {
+        if (isNear && !note.loaded) {
+            context?.view.loadNote(note.path);
+        }
+    }, [isNear, note.loaded]);
+
+    useEffect(() => {
+        if (cardRef.current) {
+            context?.view.claimScrollTarget(note.path, cardRef.current);
+        }
+    }, []);
+
+    // Main continuation with sibling replies can be demoted
+    const graph = context?.plugin.graph;
+    const prev = graph?.getPrev(note.path) ?? null;
+    const canDemote = !!graph && !!prev &&
+        graph.getMainContinuation(prev) === note.path &&
+        graph.getNext(prev).length > 1;
+    const isFallback = graph?.isFallbackContinuation(note.path) ?? false;
+
+    // Reading mode renders notes until one is clicked
+    const isEditable = context?.view.isNoteEditable(note.path) ?? true;
+
+    const onDragStart = (evt: DragEvent<HTMLElement>) => {
+        evt.dataTransfer.setData(NOTE_DRAG_TYPE, note.path);
+        evt.dataTransfer.effectAllowed = 'move';
+    };
+
+    const onDragOver = (evt: DragEvent<HTMLElement>) => {
+        if (!evt.dataTransfer.types.includes(NOTE_DRAG_TYPE)) return;
+        evt.preventDefault();
+        evt.dataTransfer.dropEffect = 'move';
+        setDropPosition(getDropPosition(evt));
+    };
+
+    const onDrop = (evt: DragEvent<HTMLElement>) => {
+        const draggedPath = evt.dataTransfer.getData(NOTE_DRAG_TYPE);
+        setDropPosition(null);
+        if (!context || !draggedPath) return;
+
+        evt.preventDefault();
+        moveNote(context.plugin, draggedPath, note.path, getDropPosition(evt)).catch(reportMoveFailure);
+    };
+
+    const classNames = ['thread-note'];
+    if (isCurrent) classNames.push('is-current-note');
+    if (dropPosition) classNames.push(`is-drop-${dropPosition}`);
+
+    return (
+        <div
+            ref={cardRef}
+            className={classNames.join(' ')}
+            data-path={note.path}
+            style={{ minHeight: isNear ? undefined : context?.view.getNoteHeight(note.path) }}
+            onDragOver={onDragOver}
+            onDragLeave={(evt) => {
+                // Ignore leaving into a child element of the card
+                if (!evt.currentTarget.contains(evt.relatedTarget as Node)) {
+                    setDropPosition(null);
+                }
+            }}
+            onDrop={onDrop}
+        >
+            <NoteHeader note={note} isCurrent={isCurrent} />
+            {note.loaded && <PropertiesPanel note={note} />}
+            {isNear && note.loaded ? (
+                isEditable ? (
+                    <MarkdownEditor
+                        value={note.body}
+                        filePath={note.path}
+                        isCurrent={isCurrent}
+                        onChange={(value) => onContentChange(value, note.path)}
+                    />
+                ) : (
+                    <MarkdownPreview value={note.body} filePath={note.path} isCurrent={isCurrent} />
+                )
+            ) : (
+                <div className="thread-note-placeholder" />
+            )}
+            <div className="thread-note-actions">
+                <div
+                    className="thread-note-drag-handle"
+                    draggable
+                    onDragStart={onDragStart}
+                    aria-label="Drag to move this note"
+                >
+                    ⠿
+                </div>
+                {isFallback && (
+                    <span
+                        className="thread-note-fallback-badge"
+                        title="No sibling is marked as main thread, so this branch was picked automatically"
+                    >
+                        Main by default
+                    </span>
+                )}
+                {canDemote && context && (
+                    <button
+                        className="thread-note-action"
+                        onClick={() => demoteToReply(context.plugin, note.path).catch(reportMoveFailure)}
+                    >
+                        Demote to reply
+                    </button>
+                )}
+                <button
+                    className="thread-note-action"
+                    onClick={() => context?.view.createNote(note.path, false)}
+                >
+                    Reply
+                </button>
+                <button
+                    className="thread-note-action"
+                    onClick={() => context?.view.createNote(note.path, true)}
+                >
+                    Continue
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+import { useContext } from 'react';
+import type { MouseEvent } from 'react';
+import { Menu, Notice, TFile, moment } from 'obsidian';
+import { ThreadContext } from './context';
+import { RenameNoteModal } from '../modals/RenameNoteModal';
+import type { NoteContent } from '../views/types';
+
+// Format for the full timestamps shown on hover
+const FULL_TIME_FORMAT = 'YYYY-MM-DD HH:mm';
+
+interface NoteHeaderProps {
+    note: NoteContent;
+    isCurrent: boolean;
+}
+
+/**
+ * Title bar of a note card: which file this is, when it was written,
+ * how many replies it has, and a menu of file actions
+ */
+export function NoteHeader({ note, isCurrent }: NoteHeaderProps) {
+    const context = useContext(ThreadContext);
+    if (!context) return null;
+
+    const { app, view, plugin } = context;
+    const file = app.vault.getAbstractFileByPath(note.path);
+    if (!(file instanceof TFile)) return null;
+
+    const replyCount = plugin.graph.getReplies(note.path).length;
+
+    const showMenu = (evt: MouseEvent<HTMLElement>) => {
+        const menu = new Menu();
+
+        menu.addItem(item => item
+            .setTitle('Open in new tab')
+            .setIcon('file-plus')
+            .onClick(() => app.workspace.getLeaf('tab').openFile(file)));
+        menu.addItem(item => item
+            .setTitle('Open as markdown')
+            .setIcon('file-text')
+            .onClick(() => plugin.openAsMarkdown(file)));
+        menu.addItem(item => item
+            .setTitle('Copy link')
+            .setIcon('link')
+            .onClick(async () => {
+                const link = app.fileManager.generateMarkdownLink(file, view.file?.path ?? '');
+                try {
+                    await navigator.clipboard.writeText(link);
+                    new Notice('Link copied.');
+                } catch (error) {
+                    console.error('Copying note link failed:', error);
+                    new Notice('Could not copy the link, see console for details.');
+                }
+            }));
+
+        menu.addSeparator();
+
+        menu.addItem(item => item
+            .setTitle('Reply')
+            .setIcon('reply')
+            .onClick(() => view.createNote(note.path, false)));
+        menu.addItem(item => item
+            .setTitle('Rename…')
+            .setIcon('pencil')
+            .onClick(async () => {
+                // Pending edits would otherwise be written to the old path
+                await view.flushNote(note.path);
+                new RenameNoteModal(app, file).open();
+            }));
+        menu.addItem(item => item
+            .setTitle('Delete')
+            .setIcon('trash')
+            .setWarning(true)
+            .onClick(() => app.fileManager.promptForDeletion(file)));
+
+        menu.showAtMouseEvent(evt.nativeEvent);
+    };
+
+    return (
+        <div className="thread-note-header">
+            <span
+                className={`thread-note-title${isCurrent ? '' : ' is-clickable'}`}
+                title={isCurrent ? note.path : `Show the thread from ${file.basename}`}
+                onClick={() => !isCurrent && view.recenterOn(note.path)}
+            >
+                {file.basename}
+            </span>
+            <span className="thread-note-meta">
+                <span title={`Created ${moment(file.stat.ctime).format(FULL_TIME_FORMAT)}`}>
+                    {moment(file.stat.ctime).fromNow()}
+                </span>
+                {file.stat.mtime - file.stat.ctime > 60 * 1000 && (
+                    <span title={`Modified ${moment(file.stat.mtime).format(FULL_TIME_FORMAT)}`}>
+                        {' · edited '}{moment(file.stat.mtime).fromNow()}
+                    </span>
+                )}
+                {replyCount > 0 && (
+                    <span>{' · '}{replyCount} {replyCount === 1 ? 'reply' : 'replies'}</span>
+                )}
+            </span>
+            <button
+                className="thread-note-menu clickable-icon"
+                aria-label="Note actions"
+                onClick={showMenu}
+            >
+                ⋯
+            </button>
+        </div>
+    );
+}
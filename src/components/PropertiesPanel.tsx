@@ -0,0 +1,202 @@
+import { useContext, useEffect, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Notice, TFile, parseYaml } from 'obsidian';
+import { ThreadContext } from './context';
+import { reparentNote, reportMoveFailure, setMainMarker } from '../commands/moveNote';
+import { MoveNoteModal } from '../modals/MoveNoteModal';
+import type { NoteContent } from '../views/types';
+
+interface PropertiesPanelProps {
+    note: NoteContent;
+}
+
+type Properties = Record<string, unknown>;
+
+/**
+ * Parse the frontmatter block (with delimiters) into an object
+ */
+function parseProperties(frontmatter: string): Properties {
+    const yaml = frontmatter.replace(/^---\r?\n/, '').replace(/\r?\n---\r?\n?$/, '');
+    try {
+        const parsed = parseYaml(yaml);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) return value.join(', ');
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Convert edited text back to the type the property had before.
+ * Nested values are edited as JSON; text that doesn't parse keeps the old value.
+ */
+function parseValue(text: string, previous: unknown): unknown {
+    if (previous === null && text.trim() === '') {
+        return null;
+    }
+    if (Array.isArray(previous)) {
+        return text.split(',').map(v => v.trim()).filter(v => v.length > 0);
+    }
+    if (previous !== null && typeof previous === 'object') {
+        try {
+            return JSON.parse(text);
+        } catch {
+            new Notice('Nested properties must be valid JSON.');
+            return previous;
+        }
+    }
+    if (typeof previous === 'number' && text.trim() !== '' && !isNaN(Number(text))) {
+        return Number(text);
+    }
+    return text;
+}
+
+function getBasename(path: string): string {
+    return path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+}
+
+/**
+ * Collapsible list of a note's properties, edited through processFrontMatter.
+ * The prev and thread properties get dedicated controls that update the graph right away.
+ */
+export function PropertiesPanel({ note }: PropertiesPanelProps) {
+    const context = useContext(ThreadContext);
+    const [open, setOpen] = useState(false);
+    const [properties, setProperties] = useState<Properties>(() => parseProperties(note.frontmatter));
+    const [newKey, setNewKey] = useState('');
+
+    // Re-sync when the note is re-read from disk
+    useEffect(() => {
+        setProperties(parseProperties(note.frontmatter));
+    }, [note.frontmatter]);
+
+    if (!context) return null;
+    const { app, plugin } = context;
+    const { graph } = plugin;
+
+    const update = (fn: (fm: Properties) => void) => {
+        const file = app.vault.getAbstractFileByPath(note.path);
+        if (!(file instanceof TFile)) return;
+
+        // Optimistic local update, then write; roll back to the last read if it fails
+        setProperties(current => {
+            const next = { ...current };
+            fn(next);
+            return next;
+        });
+        app.fileManager.processFrontMatter(file, fn).catch((error) => {
+            console.error('Updating note properties failed:', error);
+            new Notice('Could not update the properties, see console for details.');
+            setProperties(parseProperties(note.frontmatter));
+        });
+    };
+
+    const commitValue = (key: string, text: string) => {
+        if (formatValue(properties[key]) === text) return;
+        const value = parseValue(text, properties[key]);
+        if (value === properties[key]) return;
+        update(fm => { fm[key] = value; });
+    };
+
+    const addProperty = () => {
+        const key = newKey.trim();
+        if (!key || key in properties) return;
+        setNewKey('');
+        update(fm => { fm[key] = ''; });
+    };
+
+    const onKeyDown = (evt: KeyboardEvent<HTMLInputElement>) => {
+        if (evt.key === 'Enter') {
+            evt.preventDefault();
+            evt.currentTarget.blur();
+        }
+    };
+
+    const prevPath = graph.getPrev(note.path);
+    const isMain = graph.isMainThread(note.path);
+    const { prevKey, threadKey } = plugin.settings;
+    const otherKeys = Object.keys(properties).filter(k => k !== prevKey && k !== threadKey);
+
+    return (
+        <div className={`thread-note-properties${open ? ' is-open' : ''}`}>
+            <div className="thread-note-properties-toggle" onClick={() => setOpen(!open)}>
+                {open ? '▾' : '▸'} Properties ({Object.keys(properties).length})
+            </div>
+            {open && (
+                <div className="thread-note-properties-list">
+                    <div className="thread-note-property">
+                        <span className="thread-note-property-key">{prevKey}</span>
+                        <span className="thread-note-property-value">
+                            {prevPath ? getBasename(prevPath) : <em>None</em>}
+                            {prevPath && !graph.isResolved(note.path) && (
+                                <span className="thread-note-property-warning"> (missing)</span>
+                            )}
+                        </span>
+                        <button
+                            onClick={() => new MoveNoteModal(plugin, note.path, (target) => {
+                                reparentNote(plugin, note.path, target).catch(reportMoveFailure);
+                            }).open()}
+                        >
+                            Change
+                        </button>
+                    </div>
+                    <div className="thread-note-property">
+                        <span className="thread-note-property-key">{threadKey}</span>
+                        <label className="thread-note-property-value">
+                            <input
+                                type="checkbox"
+                                checked={isMain}
+                                onChange={(evt) => setMainMarker(plugin, note.path, evt.target.checked).catch(reportMoveFailure)}
+                            />
+                            Main thread
+                        </label>
+                    </div>
+                    {otherKeys.map(key => (
+                        <div key={key} className="thread-note-property">
+                            <span className="thread-note-property-key">{key}</span>
+                            {typeof properties[key] === 'boolean' ? (
+                                <input
+                                    type="checkbox"
+                                    checked={properties[key] as boolean}
+                                    onChange={(evt) => update(fm => { fm[key] = evt.target.checked; })}
+                                />
+                            ) : (
+                                <input
+                                    type="text"
+                                    className="thread-note-property-value"
+                                    defaultValue={formatValue(properties[key])}
+                                    key={formatValue(properties[key])}
+                                    onBlur={(evt) => commitValue(key, evt.target.value)}
+                                    onKeyDown={onKeyDown}
+                                />
+                            )}
+                            <button
+                                aria-label="Remove property"
+                                onClick={() => update(fm => { delete fm[key]; })}
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <div className="thread-note-property">
+                        <input
+                            type="text"
+                            className="thread-note-property-new"
+                            placeholder="Add property"
+                            value={newKey}
+                            onChange={(evt) => setNewKey(evt.target.value)}
+                            onKeyDown={(evt) => {
+                                if (evt.key === 'Enter') addProperty();
+                            }}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
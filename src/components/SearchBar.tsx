@@ -0,0 +1,132 @@
+import { useContext } from 'react';
+import type { KeyboardEvent } from 'react';
+import { ThreadContext } from './context';
+import type { SearchState } from '../views/types';
+
+interface SearchBarProps {
+    search: SearchState;
+}
+
+/**
+ * Find (and replace) across every note of the thread, pinned above the notes
+ */
+export function SearchBar({ search }: SearchBarProps) {
+    const context = useContext(ThreadContext);
+    if (!context) return null;
+
+    const { view } = context;
+    const { query, matches, active, error } = search;
+
+    const onFindKeyDown = (evt: KeyboardEvent<HTMLInputElement>) => {
+        if (evt.key === 'Enter' && !evt.nativeEvent.isComposing) {
+            evt.preventDefault();
+            view.findNext(evt.shiftKey ? -1 : 1);
+        } else if (evt.key === 'Escape') {
+            evt.preventDefault();
+            view.closeSearch();
+        }
+    };
+
+    const onReplaceKeyDown = (evt: KeyboardEvent<HTMLInputElement>) => {
+        if (evt.key === 'Enter' && !evt.nativeEvent.isComposing) {
+            evt.preventDefault();
+            view.replaceCurrent();
+        } else if (evt.key === 'Escape') {
+            evt.preventDefault();
+            view.closeSearch();
+        }
+    };
+
+    let status = '';
+    if (error) {
+        status = 'Invalid regex';
+    } else if (query.text) {
+        status = matches.length > 0 ? `${active + 1} of ${matches.length}` : 'No results';
+    }
+
+    return (
+        <div className="thread-search">
+            <div className="thread-search-row">
+                <button
+                    className="thread-search-button"
+                    aria-label={search.showReplace ? 'Hide replace' : 'Show replace'}
+                    onClick={() => view.toggleSearchReplace()}
+                >
+                    {search.showReplace ? '▾' : '▸'}
+                </button>
+                <input
+                    className="thread-search-input"
+                    type="text"
+                    placeholder="Find in thread"
+                    value={query.text}
+                    onChange={(evt) => view.setSearchQuery({ text: evt.target.value })}
+                    onKeyDown={onFindKeyDown}
+                />
+                <span className="thread-search-status" title={error ?? undefined}>{status}</span>
+                <button
+                    className={`thread-search-button${query.caseSensitive ? ' is-active' : ''}`}
+                    aria-label="Match case"
+                    onClick={() => view.setSearchQuery({ caseSensitive: !query.caseSensitive })}
+                >
+                    Aa
+                </button>
+                <button
+                    className={`thread-search-button${query.regex ? ' is-active' : ''}`}
+                    aria-label="Use regular expression"
+                    onClick={() => view.setSearchQuery({ regex: !query.regex })}
+                >
+                    .*
+                </button>
+                <button
+                    className="thread-search-button"
+                    aria-label="Previous match"
+                    disabled={matches.length === 0}
+                    onClick={() => view.findNext(-1)}
+                >
+                    ↑
+                </button>
+                <button
+                    className="thread-search-button"
+                    aria-label="Next match"
+                    disabled={matches.length === 0}
+                    onClick={() => view.findNext(1)}
+                >
+                    ↓
+                </button>
+                <button
+                    className="thread-search-button"
+                    aria-label="Close"
+                    onClick={() => view.closeSearch()}
+                >
+                    ✕
+                </button>
+            </div>
+            {search.showReplace && (
+                <div className="thread-search-row">
+                    <input
+                        className="thread-search-replace-input"
+                        type="text"
+                        placeholder="Replace"
+                        value={search.replacement}
+                        onChange={(evt) => view.setSearchReplacement(evt.target.value)}
+                        onKeyDown={onReplaceKeyDown}
+                    />
+                    <button
+                        className="thread-search-action"
+                        disabled={matches.length === 0}
+                        onClick={() => view.replaceCurrent()}
+                    >
+                        Replace
+                    </button>
+                    <button
+                        className="thread-search-action"
+                        disabled={matches.length === 0}
+                        onClick={() => view.replaceAll()}
+                    >
+                        Replace all
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,72 +1,129 @@
+import { Fragment, useContext } from 'react';
 import { ThreadContext, ThreadContextValue } from './context';
-import { MarkdownEditor } from './MarkdownEditor';
-import type { ThreadData, ThreadChain, NoteContent } from '../views/types';
+import { NoteCard } from './NoteCard';
+import { Composer } from './Composer';
+import { SearchBar } from './SearchBar';
+import { promoteToMain, reportMoveFailure } from '../commands/moveNote';
+import type { SearchState, ThreadData, ThreadChain, ThreadTreeNode } from '../views/types';
 
 interface ThreadContainerProps {
     context: ThreadContextValue;
     threadData: ThreadData;
+    search: SearchState | null;
+    onContentChange: (body: string, filePath: string) => void;
+}
+
+interface ChainProps {
+    chain: ThreadChain;
+    currentPath: string;
     onContentChange: (body: string, filePath: string) => void;
 }
 
 /**
- * Render a single chain of notes
+ * Render a single chain of notes, with each note's replies below it
  */
-function ChainRenderer({
-    chain,
+function ChainRenderer({ chain, currentPath, onContentChange }: ChainProps) {
+    return (
+        <>
+            {chain.nodes.map((node) => (
+                <Fragment key={node.note.path}>
+                    <NoteCard
+                        note={node.note}
+                        isCurrent={node.note.path === currentPath}
+                        onContentChange={onContentChange}
+                    />
+                    {node.replies.length > 0 && (
+                        <RepliesRenderer
+                            node={node}
+                            currentPath={currentPath}
+                            onContentChange={onContentChange}
+                        />
+                    )}
+                </Fragment>
+            ))}
+        </>
+    );
+}
+
+/**
+ * Render the reply chains of a note, collapsible, recursing into nested replies
+ */
+function RepliesRenderer({
+    node,
     currentPath,
     onContentChange,
 }: {
-    chain: ThreadChain;
+    node: ThreadTreeNode;
     currentPath: string;
     onContentChange: (body: string, filePath: string) => void;
 }) {
+    const context = useContext(ThreadContext);
+    if (!context) return null;
+
+    const { view, plugin } = context;
+    const path = node.note.path;
+    const expanded = view.isRepliesExpanded(path);
+    const count = node.replies.length;
+
     return (
-        <>
-            {chain.notes.map((note) => (
-                <MarkdownEditor
-                    key={note.path}
-                    value={note.body}
-                    filePath={note.path}
-                    isCurrent={note.path === currentPath}
-                    onChange={(value) => onContentChange(value, note.path)}
-                />
+        <div className={`reply-chains${expanded ? ' is-expanded' : ''}`}>
+            <div
+                className="reply-chains-toggle"
+                onClick={() => view.setRepliesExpanded(path, !expanded)}
+            >
+                {expanded ? '▾' : '▸'} {count} {count === 1 ? 'reply' : 'replies'}
+            </div>
+            {expanded && node.replies.map((chain) => (
+                <div key={chain.nodes[0].note.path} className="reply-chain">
+                    <div className="reply-chain-divider">
+                        <span className="reply-chain-label">Reply</span>
+                        <button
+                            className="reply-chain-promote"
+                            onClick={() => promoteToMain(plugin, chain.nodes[0].note.path).catch(reportMoveFailure)}
+                        >
+                            Make this the main thread
+                        </button>
+                    </div>
+                    <ChainRenderer
+                        chain={chain}
+                        currentPath={currentPath}
+                        onContentChange={onContentChange}
+                    />
+                    {plugin.settings.showReplyComposers && (
+                        <Composer
+                            parentPath={getLastPath(chain) as string}
+                            placeholder="Answer this reply…"
+                        />
+                    )}
+                </div>
             ))}
-        </>
+        </div>
     );
 }
 
-export function ThreadContainer({ context, threadData, onContentChange }: ThreadContainerProps) {
-    const hasReplies = threadData.replyChains.length > 0;
+/**
+ * Get the path of the last note in a chain
+ */
+function getLastPath(chain: ThreadChain): string | null {
+    return chain.nodes[chain.nodes.length - 1]?.note.path ?? null;
+}
+
+export function ThreadContainer({ context, threadData, search, onContentChange }: ThreadContainerProps) {
+    const mainLastPath = getLastPath(threadData.mainChain);
 
     return (
         <ThreadContext.Provider value={context}>
             <div className="thread-view-container">
-                {/* Main thread chain */}
+                {search && <SearchBar search={search} />}
+                {/* Main thread chain, replies nested under each note */}
                 <div className="main-thread-chain">
                     <ChainRenderer
                         chain={threadData.mainChain}
                         currentPath={threadData.currentPath}
                         onContentChange={onContentChange}
                     />
+                    {mainLastPath && <Composer parentPath={mainLastPath} />}
                 </div>
-
-                {/* Reply chains */}
-                {hasReplies && (
-                    <div className="reply-chains">
-                        {threadData.replyChains.map((chain, index) => (
-                            <div key={chain.notes[0]?.path ?? index} className="reply-chain">
-                                <div className="reply-chain-divider">
-                                    <span className="reply-chain-label">Reply</span>
-                                </div>
-                                <ChainRenderer
-                                    chain={chain}
-                                    currentPath={threadData.currentPath}
-                                    onContentChange={onContentChange}
-                                />
-                            </div>
-                        ))}
-                    </div>
-                )}
             </div>
         </ThreadContext.Provider>
     );
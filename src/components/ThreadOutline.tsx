@@ -0,0 +1,64 @@
+import type { OutlineItem } from '../views/OutlineView';
+
+interface ThreadOutlineProps {
+    chain: OutlineItem[];
+    activePath: string | null;
+    firstLines: Map<string, string>;
+    onSelect: (path: string) => void;
+}
+
+function getBasename(path: string): string {
+    return path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+}
+
+/**
+ * Outline of a thread: one row per note, replies nested below their note
+ */
+export function ThreadOutline({ chain, activePath, firstLines, onSelect }: ThreadOutlineProps) {
+    return (
+        <ul className="thread-outline-chain">
+            {chain.map((item) => {
+                const firstLine = firstLines.get(item.path);
+                const classNames = ['thread-outline-item'];
+                if (item.path === activePath) classNames.push('is-active');
+                if (!item.exists) classNames.push('is-missing');
+
+                return (
+                    <li key={item.path}>
+                        <div
+                            className={classNames.join(' ')}
+                            onClick={() => item.exists && onSelect(item.path)}
+                            title={item.path}
+                        >
+                            <span className="thread-outline-title">{getBasename(item.path)}</span>
+                            {!item.exists && (
+                                <span className="thread-outline-marker" title="This note does not exist">
+                                    missing
+                                </span>
+                            )}
+                            {item.unresolved && (
+                                <span className="thread-outline-marker" title="prev points at a note that does not exist">
+                                    ⚠ unresolved prev
+                                </span>
+                            )}
+                            {item.replies.length > 0 && (
+                                <span className="thread-outline-count">{item.replies.length}</span>
+                            )}
+                            {firstLine && <div className="thread-outline-first-line">{firstLine}</div>}
+                        </div>
+                        {item.replies.map((replyChain) => (
+                            <div key={replyChain[0].path} className="thread-outline-replies">
+                                <ThreadOutline
+                                    chain={replyChain}
+                                    activePath={activePath}
+                                    firstLines={firstLines}
+                                    onSelect={onSelect}
+                                />
+                            </div>
+                        ))}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -0,0 +1,39 @@
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+
+export interface SearchHighlights {
+    /** Match ranges in the editor's document */
+    ranges: { from: number; to: number }[];
+    /** Index into ranges of the selected match, or -1 */
+    active: number;
+}
+
+/**
+ * Replace the search highlights of an editor (an empty list clears them)
+ */
+export const setSearchHighlights = StateEffect.define<SearchHighlights>();
+
+const matchMark = Decoration.mark({ class: 'thread-search-match' });
+const activeMatchMark = Decoration.mark({ class: 'thread-search-match is-active' });
+
+/**
+ * Find-in-thread highlights, pushed in by the Thread view because matches
+ * span all notes of the thread rather than one editor
+ */
+export const searchHighlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(decorations, tr) {
+        decorations = decorations.map(tr.changes);
+        for (const effect of tr.effects) {
+            if (effect.is(setSearchHighlights)) {
+                const { ranges, active } = effect.value;
+                decorations = Decoration.set(
+                    ranges.map((range, i) => (i === active ? activeMatchMark : matchMark).range(range.from, range.to)),
+                    true
+                );
+            }
+        }
+        return decorations;
+    },
+    provide: field => EditorView.decorations.from(field),
+});
@@ -0,0 +1,41 @@
+import { RefObject, useEffect, useState } from 'react';
+
+interface NearViewportOptions {
+    /** Scroll container to observe against */
+    root: HTMLElement | null;
+    /** How far outside the viewport still counts as near */
+    margin?: string;
+    /** Return true to stay "near" while leaving (e.g. the card has focus) */
+    keep?: () => boolean;
+    /** Called with the element's height when it stops being near */
+    onLeave?: (height: number) => void;
+}
+
+/**
+ * Track whether an element is within (or close to) the visible part of its scroll container
+ */
+export function useNearViewport(ref: RefObject<HTMLElement | null>, options: NearViewportOptions): boolean {
+    const [near, setNear] = useState(false);
+    const { root, margin = '100% 0px', keep, onLeave } = options;
+
+    useEffect(() => {
+        const el = ref.current;
+        if (!el) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            for (const entry of entries) {
+                if (entry.isIntersecting) {
+                    setNear(true);
+                } else if (!keep?.()) {
+                    onLeave?.(entry.boundingClientRect.height);
+                    setNear(false);
+                }
+            }
+        }, { root, rootMargin: margin });
+
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, [ref, root, margin]);
+
+    return near;
+}
@@ -1,3 +1,6 @@
+import { EventRef, Events } from 'obsidian';
+import type { MovePosition, PrevRewrite, ThreadEdge, ThreadIssue, ThreadNode } from './types';
+
 /**
  * ThreadGraph - Simple graph for managing thread connections
  * 
@@ -5,8 +8,12 @@
  * - prevMap: notePath → prevNotePath (explicit from frontmatter)
  * - nextMap: notePath → nextNotePaths[] (implied from prevMap inversion)
  * - threadMarkers: notePath → isMainThread (from thread: true frontmatter)
+ *
+ * Emits 'changed' with the affected paths whenever edges are patched,
+ * 'added' when an incremental update attaches a note to a prev note, and
+ * 'renamed' when a note moves to a new path.
  */
-export class ThreadGraph {
+export class ThreadGraph extends Events {
     /** Explicit prev edges from frontmatter: currentNote → prevNote */
     private prevMap: Map<string, string | null> = new Map();
 
@@ -16,6 +23,22 @@ export class ThreadGraph {
     /** Track which notes are marked as main thread continuations */
     private threadMarkers: Map<string, boolean> = new Map();
 
+    /** Notes whose prev link did not resolve to an existing file */
+    private unresolved: Set<string> = new Set();
+
+    /** Order used to pick a main continuation when no sibling is marked */
+    private compareSiblings: ((a: string, b: string) => number) | null = null;
+
+    /** Fallback main continuation last handed out per parent, to notice sort value edits that change it */
+    private fallbackContinuations: Map<string, string> = new Map();
+
+    on(name: 'changed', callback: (paths: string[]) => unknown, ctx?: unknown): EventRef;
+    on(name: 'added', callback: (path: string, prevPath: string) => unknown, ctx?: unknown): EventRef;
+    on(name: 'renamed', callback: (path: string, oldPath: string) => unknown, ctx?: unknown): EventRef;
+    on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+        return super.on(name, callback, ctx);
+    }
+
     /**
      * Get the previous note in the thread
      */
@@ -38,6 +61,31 @@ export class ThreadGraph {
         this.prevMap.set(path, prevPath);
     }
 
+    /**
+     * Mark whether a note's prev link resolved to an existing file
+     */
+    setResolved(path: string, resolved: boolean): void {
+        if (resolved) {
+            this.unresolved.delete(path);
+        } else {
+            this.unresolved.add(path);
+        }
+    }
+
+    /**
+     * Check if a note's prev link points at an existing file
+     */
+    isResolved(path: string): boolean {
+        return !this.unresolved.has(path);
+    }
+
+    /**
+     * Get all notes whose prev link is currently unresolved
+     */
+    getUnresolvedNodes(): string[] {
+        return Array.from(this.unresolved);
+    }
+
     /**
      * Set whether a note is marked as main thread
      */
@@ -52,9 +100,19 @@ export class ThreadGraph {
         return this.threadMarkers.get(path) ?? false;
     }
 
+    /**
+     * Set the sibling order used for the fallback main continuation.
+     * Main continuations may change, so every node is reported as changed.
+     */
+    setSiblingComparator(compare: ((a: string, b: string) => number) | null): void {
+        this.compareSiblings = compare;
+        this.fallbackContinuations.clear();
+        this.trigger('changed', this.getAllNodes());
+    }
+
     /**
      * Get the main continuation of a thread from this note
-     * Prefers notes with thread: true, falls back to first note
+     * Prefers notes with thread: true, falls back to the first note in sibling order
      */
     getMainContinuation(path: string): string | null {
         const nexts = this.getNext(path);
@@ -62,10 +120,26 @@ export class ThreadGraph {
 
         // Prefer note with thread: true
         const mainThread = nexts.find(p => this.isMainThread(p));
-        if (mainThread) return mainThread;
+        if (mainThread) {
+            this.fallbackContinuations.delete(path);
+            return mainThread;
+        }
+
+        // Fallback: first note by sibling order (insertion order if none is set)
+        const compare = this.compareSiblings;
+        const first = compare ? nexts.reduce((best, p) => (compare(p, best) < 0 ? p : best)) : nexts[0];
+        this.fallbackContinuations.set(path, first);
+        return first;
+    }
 
-        // Fallback: first note (by insertion order)
-        return nexts[0];
+    /**
+     * Check if a note is its parent's main continuation only because no
+     * sibling carries a thread marker (and there are siblings to choose from)
+     */
+    isFallbackContinuation(path: string): boolean {
+        const prev = this.getPrev(path);
+        if (!prev || this.getNext(prev).length < 2) return false;
+        return this.getMainContinuation(prev) === path && !this.isMainThread(path);
     }
 
     /**
@@ -79,11 +153,14 @@ export class ThreadGraph {
 
     /**
      * Find the root of a thread (walk backwards via prev until null)
+     * Stops before revisiting a note, so prev cycles cannot loop forever
      */
     getThreadRoot(path: string): string {
+        const visited = new Set<string>([path]);
         let root = path;
         let prev = this.getPrev(root);
-        while (prev) {
+        while (prev && !visited.has(prev)) {
+            visited.add(prev);
             root = prev;
             prev = this.getPrev(root);
         }
@@ -98,16 +175,8 @@ export class ThreadGraph {
         // Find root
         const root = this.getThreadRoot(startPath);
 
-
         // Walk forward via main continuation
-        const thread: string[] = [root];
-        let current = this.getMainContinuation(root);
-        while (current) {
-            thread.push(current);
-            current = this.getMainContinuation(current);
-        }
-
-        return thread;
+        return this.getChainFromNote(root);
     }
 
     /**
@@ -116,8 +185,10 @@ export class ThreadGraph {
      */
     getChainFromNote(startPath: string): string[] {
         const chain: string[] = [startPath];
+        const visited = new Set<string>(chain);
         let current = this.getMainContinuation(startPath);
-        while (current) {
+        while (current && !visited.has(current)) {
+            visited.add(current);
             chain.push(current);
             current = this.getMainContinuation(current);
         }
@@ -140,6 +211,73 @@ export class ThreadGraph {
         return this.prevMap.has(path);
     }
 
+    /**
+     * Get a note as a node: known notes exist in the vault, while prev
+     * targets that don't resolve are reported as unresolved nodes
+     */
+    getNode(path: string): ThreadNode | null {
+        if (this.prevMap.has(path)) {
+            return { path, resolved: true, isMainThread: this.isMainThread(path) };
+        }
+        if (this.nextMap.has(path)) {
+            return { path, resolved: false, isMainThread: false };
+        }
+        return null;
+    }
+
+    /**
+     * Get the edges of a note: its explicit prev edge and implied next edges
+     */
+    getEdges(path: string): ThreadEdge[] {
+        const edges: ThreadEdge[] = [];
+        const prev = this.getPrev(path);
+        if (prev) {
+            edges.push({ source: path, target: prev, type: 'prev', explicit: true });
+        }
+        for (const next of this.getNext(path)) {
+            edges.push({ source: path, target: next, type: 'next', explicit: false });
+        }
+        return edges;
+    }
+
+    /**
+     * Get the notes before this one, nearest first, up to the thread root
+     */
+    getAncestors(path: string): string[] {
+        const ancestors: string[] = [];
+        const visited = new Set<string>([path]);
+        for (let prev = this.getPrev(path); prev && !visited.has(prev); prev = this.getPrev(prev)) {
+            visited.add(prev);
+            ancestors.push(prev);
+        }
+        return ancestors;
+    }
+
+    /**
+     * Get every note below this one (continuations and replies, nested),
+     * depth first. Cycle-safe.
+     */
+    getDescendants(path: string): string[] {
+        const descendants: string[] = [];
+        const visited = new Set<string>([path]);
+        const stack = [...this.getNext(path)].reverse();
+        while (stack.length > 0) {
+            const current = stack.pop() as string;
+            if (visited.has(current)) continue;
+            visited.add(current);
+            descendants.push(current);
+            stack.push(...[...this.getNext(current)].reverse());
+        }
+        return descendants;
+    }
+
+    /**
+     * Check if a note takes part in a thread (has a prev link or a next note)
+     */
+    isThreaded(path: string): boolean {
+        return this.getPrev(path) !== null || this.getNext(path).length > 0;
+    }
+
     /**
      * Get all nodes in the graph
      */
@@ -164,6 +302,339 @@ export class ThreadGraph {
         }
     }
 
+    /**
+     * Find cycles in prev links. Each cycle is reported once, in prev order.
+     * Self-references (a note whose prev is itself) are not included.
+     */
+    findCycles(): string[][] {
+        const cycles: string[][] = [];
+        const done = new Set<string>();
+
+        for (const start of this.prevMap.keys()) {
+            if (done.has(start)) continue;
+
+            const walk: string[] = [];
+            const onWalk = new Map<string, number>();
+            let current: string | null = start;
+
+            while (current && !done.has(current) && !onWalk.has(current)) {
+                onWalk.set(current, walk.length);
+                walk.push(current);
+                current = this.getPrev(current);
+            }
+
+            if (current && onWalk.has(current)) {
+                const cycle = walk.slice(onWalk.get(current));
+                if (cycle.length > 1) {
+                    cycles.push(cycle);
+                }
+            }
+
+            walk.forEach(p => done.add(p));
+        }
+
+        return cycles;
+    }
+
+    /**
+     * Report integrity problems: cycles, self-references,
+     * dangling prev targets and competing main-thread markers
+     */
+    getDiagnostics(): ThreadIssue[] {
+        const issues: ThreadIssue[] = [];
+
+        for (const [path, prevPath] of this.prevMap.entries()) {
+            if (prevPath === path) {
+                issues.push({ type: 'self-reference', path, related: [] });
+            } else if (prevPath && !this.isResolved(path)) {
+                issues.push({ type: 'dangling', path, related: [prevPath] });
+            }
+        }
+
+        for (const cycle of this.findCycles()) {
+            issues.push({ type: 'cycle', path: cycle[0], related: cycle.slice(1) });
+        }
+
+        for (const [path, nexts] of this.nextMap.entries()) {
+            const marked = nexts.filter(p => this.isMainThread(p));
+            if (marked.length > 1) {
+                issues.push({ type: 'competing-main', path, related: marked });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check whether applying rewrites would put any note on a prev cycle
+     */
+    wouldCreateCycle(rewrites: PrevRewrite[]): boolean {
+        const overlay = new Map<string, string | null>(
+            rewrites.map(r => [r.path, r.prev] as [string, string | null])
+        );
+        const getPrev = (p: string) => overlay.has(p) ? overlay.get(p) ?? null : this.getPrev(p);
+
+        for (const { path } of rewrites) {
+            const visited = new Set<string>([path]);
+            let current = getPrev(path);
+            while (current) {
+                if (visited.has(current)) return true;
+                visited.add(current);
+                current = getPrev(current);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Plan moving a single note next to, or under, a target note.
+     * The moved note keeps its replies; its main continuation closes the gap.
+     * Returns an empty plan for no-op moves and null if the move would create a cycle.
+     */
+    planMove(path: string, target: string, position: MovePosition): PrevRewrite[] | null {
+        if (path === target) return [];
+
+        const rewrites = new Map<string, PrevRewrite>();
+        const set = (p: string, prev: string | null, isMain: boolean) => {
+            rewrites.set(p, { path: p, prev, isMain });
+        };
+        const current = (p: string) => rewrites.get(p) ?? {
+            path: p,
+            prev: this.getPrev(p),
+            isMain: this.isMainThread(p),
+        };
+
+        // Detach: the main continuation takes the moved note's place
+        const oldPrev = this.getPrev(path);
+        const continuation = this.getMainContinuation(path);
+        if (continuation) {
+            set(continuation, oldPrev, this.isMainThread(path));
+        }
+
+        const targetNode = current(target);
+        switch (position) {
+            case 'reply':
+                set(path, target, false);
+                break;
+            case 'after': {
+                // If the note was the target's main continuation, its own
+                // continuation has taken that slot by now
+                const mainNext = this.getMainContinuation(target);
+                const targetNext = mainNext === path ? continuation : mainNext;
+                set(path, target, true);
+                if (targetNext) {
+                    set(targetNext, path, true);
+                }
+                break;
+            }
+            case 'before':
+                set(path, targetNode.prev, targetNode.isMain);
+                set(target, path, true);
+                break;
+        }
+
+        const planned = Array.from(rewrites.values()).filter(r =>
+            r.prev !== this.getPrev(r.path) || r.isMain !== this.isMainThread(r.path)
+        );
+        return this.wouldCreateCycle(planned) ? null : planned;
+    }
+
+    /**
+     * Plan attaching a note (and the chain that follows it) to a new parent,
+     * or detaching it into its own thread when target is null.
+     * Returns null if the move would create a cycle.
+     */
+    planReparent(path: string, target: string | null): PrevRewrite[] | null {
+        if (target === null) {
+            return this.getPrev(path) === null ? [] : [{ path, prev: null, isMain: false }];
+        }
+        if (target === path) return null;
+
+        // Keep the marker unless the new parent already has a marked continuation
+        const competing = this.getNext(target).some(p => p !== path && this.isMainThread(p));
+        const rewrite: PrevRewrite = { path, prev: target, isMain: this.isMainThread(path) && !competing };
+
+        if (rewrite.prev === this.getPrev(path) && rewrite.isMain === this.isMainThread(path)) {
+            return [];
+        }
+        return this.wouldCreateCycle([rewrite]) ? null : [rewrite];
+    }
+
+    /**
+     * Plan making a note the main continuation of its parent:
+     * mark it and clear the marker on every sibling
+     */
+    planPromote(path: string): PrevRewrite[] {
+        const prev = this.getPrev(path);
+        if (!prev) return [];
+
+        const rewrites: PrevRewrite[] = [];
+        for (const sibling of this.getNext(prev)) {
+            const isMain = sibling === path;
+            if (this.isMainThread(sibling) !== isMain) {
+                rewrites.push({ path: sibling, prev, isMain });
+            }
+        }
+        return rewrites;
+    }
+
+    /**
+     * Plan turning a main continuation into a reply. Another sibling has to be
+     * promoted, otherwise the fallback would pick the same note again; it's the
+     * first remaining sibling in the fallback's sibling order.
+     */
+    planDemote(path: string): PrevRewrite[] {
+        const prev = this.getPrev(path);
+        if (!prev) return [];
+
+        const siblings = this.getNext(prev).filter(p => p !== path);
+        if (siblings.length === 0) return [];
+
+        const compare = this.compareSiblings;
+        const replacement = compare
+            ? siblings.reduce((first, p) => (compare(p, first) < 0 ? p : first))
+            : siblings[0];
+
+        return this.planPromote(replacement);
+    }
+
+    /**
+     * Patch a single node in place, keeping nextMap consistent.
+     * Triggers 'changed' only if the node's edges or marker actually changed,
+     * or its parent's fallback main continuation now picks a different note.
+     */
+    updateNode(path: string, prevPath: string | null, isMain: boolean, resolved = true): void {
+        const known = this.prevMap.has(path);
+        const oldPrev = this.getPrev(path);
+        const wasMain = this.isMainThread(path);
+        const wasResolved = this.isResolved(path);
+
+        this.prevMap.set(path, prevPath);
+        this.threadMarkers.set(path, isMain);
+        this.setResolved(path, resolved);
+
+        if (known && oldPrev === prevPath && wasMain === isMain && wasResolved === resolved) {
+            // Edges are the same, but a sort value (e.g. an order property) may
+            // have changed which sibling continues the thread
+            const before = prevPath ? this.fallbackContinuations.get(prevPath) : undefined;
+            if (prevPath && before !== undefined) {
+                const after = this.getMainContinuation(prevPath);
+                if (after !== before) {
+                    this.trigger('changed', after ? [prevPath, before, after] : [prevPath, before]);
+                }
+            }
+            return;
+        }
+
+        const affected = [path];
+        if (oldPrev !== prevPath) {
+            if (oldPrev) {
+                this.removeNextEdge(oldPrev, path);
+                affected.push(oldPrev);
+            }
+            if (prevPath) {
+                this.addNextEdge(prevPath, path);
+                affected.push(prevPath);
+            }
+        } else if (prevPath) {
+            // Marker change can flip which sibling is the main continuation
+            affected.push(prevPath);
+        }
+
+        this.trigger('changed', affected);
+
+        // Newly attached to a thread: a new note with a prev, or one that had none
+        if (prevPath && !oldPrev) {
+            this.trigger('added', path, prevPath);
+        }
+    }
+
+    /**
+     * Remove a note from the graph.
+     * Notes pointing at it keep their prev, which is now unresolved.
+     */
+    removeNode(path: string): void {
+        if (!this.prevMap.has(path)) return;
+
+        const prevPath = this.getPrev(path);
+        if (prevPath) {
+            this.removeNextEdge(prevPath, path);
+        }
+
+        this.prevMap.delete(path);
+        this.threadMarkers.delete(path);
+        this.unresolved.delete(path);
+        this.fallbackContinuations.delete(path);
+
+        const children = this.getNext(path);
+        for (const child of children) {
+            this.unresolved.add(child);
+        }
+
+        const affected = [path, ...children];
+        if (prevPath) affected.push(prevPath);
+        this.trigger('changed', affected);
+    }
+
+    /**
+     * Move a note to a new path, keeping its prev, marker and place among its
+     * siblings. Notes pointing at the old path keep that prev, now unresolved,
+     * until their links are re-resolved.
+     * Triggers 'renamed' rather than 'added', since the note isn't new.
+     */
+    renameNode(oldPath: string, newPath: string): void {
+        if (!this.prevMap.has(oldPath)) return;
+
+        const prevPath = this.getPrev(oldPath);
+        this.prevMap.set(newPath, prevPath);
+        this.threadMarkers.set(newPath, this.isMainThread(oldPath));
+        this.setResolved(newPath, this.isResolved(oldPath));
+
+        this.prevMap.delete(oldPath);
+        this.threadMarkers.delete(oldPath);
+        this.unresolved.delete(oldPath);
+        this.fallbackContinuations.delete(oldPath);
+
+        if (prevPath) {
+            const siblings = this.getNext(prevPath);
+            const index = siblings.indexOf(oldPath);
+            if (index !== -1) siblings[index] = newPath;
+            if (this.fallbackContinuations.get(prevPath) === oldPath) {
+                this.fallbackContinuations.set(prevPath, newPath);
+            }
+        }
+
+        const children = this.getNext(oldPath);
+        for (const child of children) {
+            this.unresolved.add(child);
+        }
+
+        const affected = [oldPath, newPath, ...children];
+        if (prevPath) affected.push(prevPath);
+        this.trigger('changed', affected);
+        this.trigger('renamed', newPath, oldPath);
+    }
+
+    private addNextEdge(prevPath: string, path: string): void {
+        const existing = this.nextMap.get(prevPath) ?? [];
+        if (!existing.includes(path)) {
+            existing.push(path);
+        }
+        this.nextMap.set(prevPath, existing);
+    }
+
+    private removeNextEdge(prevPath: string, path: string): void {
+        const existing = this.nextMap.get(prevPath);
+        if (!existing) return;
+
+        const remaining = existing.filter(p => p !== path);
+        if (remaining.length > 0) {
+            this.nextMap.set(prevPath, remaining);
+        } else {
+            this.nextMap.delete(prevPath);
+        }
+    }
+
     /**
      * Clear the graph
      */
@@ -171,6 +642,8 @@ export class ThreadGraph {
         this.prevMap.clear();
         this.nextMap.clear();
         this.threadMarkers.clear();
+        this.unresolved.clear();
+        this.fallbackContinuations.clear();
     }
 
     /**
@@ -1,18 +1,20 @@
-import { App, TFile, CachedMetadata, FrontMatterCache } from 'obsidian';
+import { App, TFile, FrontMatterCache } from 'obsidian';
 import { ThreadGraph } from './ThreadGraph';
+import type { FrontmatterKeys, GraphOptions } from './types';
 
 /**
  * Extract the prev link from frontmatter
  * Handles both single link and array of links (uses first)
  */
 function extractPrevFromFrontmatter(
-    frontmatter: FrontMatterCache | undefined
+    frontmatter: FrontMatterCache | undefined,
+    prevKey: string
 ): string | null {
-    if (!frontmatter?.prev) {
+    if (!frontmatter?.[prevKey]) {
         return null;
     }
 
-    const prev = frontmatter.prev;
+    const prev = frontmatter[prevKey];
 
     // Handle array: use first element
     if (Array.isArray(prev)) {
@@ -46,37 +48,62 @@ function cleanWikilink(link: string): string {
     return cleaned.trim();
 }
 
+/**
+ * Resolve a file's prev link to an absolute path.
+ * Unresolved links are kept as `${cleanedLink}.md` so they can be re-resolved
+ * once the target note appears.
+ */
+function resolvePrev(
+    app: App,
+    file: TFile,
+    keys: FrontmatterKeys
+): { prevPath: string | null; resolved: boolean; isThread: boolean } {
+    const cache = app.metadataCache.getFileCache(file);
+    const prevLink = extractPrevFromFrontmatter(cache?.frontmatter, keys.prevKey);
+    const isThread = cache?.frontmatter?.[keys.threadKey] === true;
+
+    if (!prevLink) {
+        // Note has no prev (start of a thread or standalone)
+        return { prevPath: null, resolved: true, isThread };
+    }
+
+    // Clean the wikilink format
+    const cleanedLink = cleanWikilink(prevLink);
+
+    // Resolve the link to an absolute path
+    const targetFile = app.metadataCache.getFirstLinkpathDest(
+        cleanedLink,
+        file.path
+    );
+
+    // Use resolved path or construct unresolved path
+    return {
+        prevPath: targetFile?.path ?? `${cleanedLink}.md`,
+        resolved: targetFile !== null,
+        isThread,
+    };
+}
+
+/**
+ * Check if a path lives in one of the excluded folders
+ */
+export function isPathExcluded(path: string, excludedFolders: string[]): boolean {
+    return excludedFolders.some(folder => path === folder || path.startsWith(folder + '/'));
+}
+
 /**
  * Build the thread graph from all markdown files in the vault
  */
-export function buildGraph(app: App, graph: ThreadGraph): void {
+export function buildGraph(app: App, graph: ThreadGraph, options: GraphOptions): void {
     graph.clear();
 
-    const markdownFiles = app.vault.getMarkdownFiles();
+    const markdownFiles = app.vault.getMarkdownFiles().filter(f => !isPathExcluded(f.path, options.excludedFolders));
 
     for (const file of markdownFiles) {
-        const cache = app.metadataCache.getFileCache(file);
-        const prevLink = extractPrevFromFrontmatter(cache?.frontmatter);
-        const isThread = cache?.frontmatter?.thread === true;
-
-        if (prevLink) {
-            // Clean the wikilink format
-            const cleanedLink = cleanWikilink(prevLink);
-
-            // Resolve the link to an absolute path
-            const targetFile = app.metadataCache.getFirstLinkpathDest(
-                cleanedLink,
-                file.path
-            );
-
-            // Use resolved path or construct unresolved path
-            const prevPath = targetFile?.path ?? `${cleanedLink}.md`;
-
-            graph.setPrev(file.path, prevPath);
-        } else {
-            // Note has no prev (start of a thread or standalone)
-            graph.setPrev(file.path, null);
-        }
+        const { prevPath, resolved, isThread } = resolvePrev(app, file, options);
+
+        graph.setPrev(file.path, prevPath);
+        graph.setResolved(file.path, resolved);
 
         // Set thread marker
         graph.setIsMainThread(file.path, isThread);
@@ -85,6 +112,30 @@ export function buildGraph(app: App, graph: ThreadGraph): void {
     // Build implied next edges
     graph.buildNextMap();
 
-    // Debug logging
-    console.log('Thread graph built:', graph.toDebugObject());
+    graph.trigger('changed', graph.getAllNodes());
+}
+
+/**
+ * Re-read a single file's frontmatter and patch its node in the graph
+ */
+export function updateGraphNode(app: App, graph: ThreadGraph, file: TFile, options: GraphOptions): void {
+    if (isPathExcluded(file.path, options.excludedFolders)) {
+        graph.removeNode(file.path);
+        return;
+    }
+
+    const { prevPath, resolved, isThread } = resolvePrev(app, file, options);
+    graph.updateNode(file.path, prevPath, isThread, resolved);
+}
+
+/**
+ * Retry resolution for every note whose prev target was missing
+ */
+export function resolveUnresolved(app: App, graph: ThreadGraph, options: GraphOptions): void {
+    for (const path of graph.getUnresolvedNodes()) {
+        const file = app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            updateGraphNode(app, graph, file, options);
+        }
+    }
 }
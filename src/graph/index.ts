@@ -1,3 +1,5 @@
 export { ThreadGraph } from './ThreadGraph';
-export { buildGraph } from './buildGraph';
+export { buildGraph, updateGraphNode, resolveUnresolved, isPathExcluded } from './buildGraph';
+export { registerGraphEvents } from './watchGraph';
+export { createNoteComparator, createContinuationComparator, parseSortOrder } from './sortNotes';
 export * from './types';
@@ -0,0 +1,153 @@
+import { App, TFile } from 'obsidian';
+import { ThreadGraph } from './ThreadGraph';
+import type { NoteSortKey, NoteSortOrder, SortDirection } from './types';
+
+type SortValue = number | string | undefined;
+
+/**
+ * Split a sort order into its key and direction
+ */
+export function parseSortOrder(order: NoteSortOrder): { key: NoteSortKey; direction: SortDirection } {
+    const [key, direction] = order.split('-') as [NoteSortKey, SortDirection];
+    return { key, direction };
+}
+
+/**
+ * Read a frontmatter sort value: numbers as-is, dates as timestamps, other text as text
+ */
+function getPropertyValue(app: App, file: TFile, properties: string[]): SortValue {
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return undefined;
+
+    for (const property of properties) {
+        const value = frontmatter[property];
+        if (typeof value === 'number') return value;
+        if (typeof value === 'string' && value.trim()) {
+            const time = Date.parse(value);
+            return isNaN(time) ? value : time;
+        }
+    }
+    return undefined;
+}
+
+function getSortValue(app: App, graph: ThreadGraph, key: NoteSortKey, path: string, properties: string[]): SortValue {
+    if (key === 'replies') {
+        return graph.getDescendants(path).length;
+    }
+
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return undefined;
+
+    switch (key) {
+        case 'ctime':
+            return file.stat.ctime;
+        case 'mtime':
+            return file.stat.mtime;
+        case 'name':
+            return file.basename;
+        case 'property':
+            return getPropertyValue(app, file, properties);
+        case 'activity': {
+            // Most recent edit anywhere in the note's subtree
+            let latest = file.stat.mtime;
+            for (const descendant of graph.getDescendants(path)) {
+                const descendantFile = app.vault.getAbstractFileByPath(descendant);
+                if (descendantFile instanceof TFile) {
+                    latest = Math.max(latest, descendantFile.stat.mtime);
+                }
+            }
+            return latest;
+        }
+    }
+}
+
+/**
+ * Compare two defined sort values; numbers sort before text
+ */
+function compareValues(a: number | string, b: number | string): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Keys whose values don't move as notes are edited or answered, so the
+ * fallback main continuation only changes when the thread itself does
+ */
+const STABLE_SORT_KEYS: NoteSortKey[] = ['name', 'property', 'ctime'];
+
+function getFileName(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Order two notes by their sort values. Notes without a value (missing file
+ * or property) always sort last, and ties are broken by file name, then path,
+ * so the result is the same on every run.
+ */
+function compareNotes(a: string, b: string, valueA: SortValue, valueB: SortValue, sign: number): number {
+    if (valueA !== undefined && valueB !== undefined) {
+        const result = compareValues(valueA, valueB);
+        if (result !== 0) return sign * result;
+    } else if (valueA !== undefined) {
+        return -1;
+    } else if (valueB !== undefined) {
+        return 1;
+    }
+
+    const nameA = getFileName(a);
+    const nameB = getFileName(b);
+    if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Create a comparator for sibling note paths, for a single sort.
+ * Each note's sort value is read once and then reused, so create a new
+ * comparator for every sort or render rather than keeping one around.
+ */
+export function createNoteComparator(
+    app: App,
+    graph: ThreadGraph,
+    order: NoteSortOrder,
+    properties: string[]
+): (a: string, b: string) => number {
+    const { key, direction } = parseSortOrder(order);
+    const sign = direction === 'desc' ? -1 : 1;
+    const values = new Map<string, SortValue>();
+
+    const getValue = (path: string): SortValue => {
+        if (!values.has(path)) {
+            values.set(path, getSortValue(app, graph, key, path, properties));
+        }
+        return values.get(path);
+    };
+
+    return (a, b) => compareNotes(a, b, getValue(a), getValue(b), sign);
+}
+
+/**
+ * Create the long-lived comparator for the graph's fallback main continuation.
+ * Only stable keys are used; any other order falls back to creation time.
+ * Values are read on each comparison since they're cheap for these keys.
+ */
+export function createContinuationComparator(
+    app: App,
+    graph: ThreadGraph,
+    order: NoteSortOrder,
+    properties: string[]
+): (a: string, b: string) => number {
+    const parsed = parseSortOrder(order);
+    const stable = STABLE_SORT_KEYS.includes(parsed.key);
+    const key = stable ? parsed.key : 'ctime';
+    const sign = stable && parsed.direction === 'desc' ? -1 : 1;
+
+    return (a, b) => compareNotes(
+        a,
+        b,
+        getSortValue(app, graph, key, a, properties),
+        getSortValue(app, graph, key, b, properties),
+        sign
+    );
+}
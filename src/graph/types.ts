@@ -27,3 +27,76 @@ export interface ThreadEdge {
     /** Whether this edge was explicitly defined in frontmatter */
     explicit: boolean;
 }
+
+/**
+ * Kinds of integrity problems found in the thread graph
+ */
+export type ThreadIssueType = 'cycle' | 'self-reference' | 'dangling' | 'competing-main';
+
+/**
+ * A single integrity problem reported by ThreadGraph.getDiagnostics
+ */
+export interface ThreadIssue {
+    type: ThreadIssueType;
+    /** Offending note (for competing-main: the parent with several marked children) */
+    path: string;
+    /** Other notes involved (cycle members, missing prev target, marked siblings) */
+    related: string[];
+}
+
+/**
+ * Where a note is dropped relative to a target note
+ */
+export type MovePosition = 'before' | 'after' | 'reply';
+
+/**
+ * A planned change to one note's thread frontmatter
+ */
+export interface PrevRewrite {
+    path: string;
+    /** New prev target (null: start of a thread) */
+    prev: string | null;
+    /** New main-thread marker */
+    isMain: boolean;
+}
+
+/**
+ * Frontmatter property names the graph reads and writes
+ */
+export interface FrontmatterKeys {
+    /** Property holding the link to the previous note */
+    prevKey: string;
+    /** Property marking a note as the main continuation */
+    threadKey: string;
+}
+
+/**
+ * Options controlling how the graph is built from the vault
+ */
+export interface GraphOptions extends FrontmatterKeys {
+    /** Folders whose notes are left out of the graph */
+    excludedFolders: string[];
+}
+
+/**
+ * What sibling notes are sorted by
+ */
+export type NoteSortKey = 'ctime' | 'mtime' | 'name' | 'property' | 'activity' | 'replies';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Ordering of sibling notes: reply chains under a note, and the fallback
+ * choice of main continuation when no sibling has a thread marker
+ */
+export type NoteSortOrder = `${NoteSortKey}-${SortDirection}`;
+
+/**
+ * Options controlling how sibling notes are ordered
+ */
+export interface SortOptions {
+    /** Default order of replies, also used to pick the fallback main continuation */
+    replySortOrder: NoteSortOrder;
+    /** Frontmatter properties checked in turn by the 'property' sort key */
+    sortProperties: string[];
+}
@@ -0,0 +1,69 @@
+import { Plugin, TAbstractFile, TFile } from 'obsidian';
+import { ThreadGraph } from './ThreadGraph';
+import { resolveUnresolved, updateGraphNode } from './buildGraph';
+import type { GraphOptions } from './types';
+
+function isMarkdownFile(file: TAbstractFile): file is TFile {
+    return file instanceof TFile && file.extension === 'md';
+}
+
+/**
+ * Keep the graph live by patching it from vault and metadata events.
+ * Should be called after the initial buildGraph, once the layout is ready.
+ * Options are read on every event so settings changes apply immediately.
+ */
+export function registerGraphEvents(plugin: Plugin, graph: ThreadGraph, getOptions: () => GraphOptions): void {
+    const { app } = plugin;
+
+    // Frontmatter edited: prev or thread marker may have changed
+    plugin.registerEvent(
+        app.metadataCache.on('changed', (file) => {
+            if (isMarkdownFile(file)) {
+                updateGraphNode(app, graph, file, getOptions());
+            }
+        })
+    );
+
+    // Link resolution finished: missing prev targets may exist now
+    plugin.registerEvent(
+        app.metadataCache.on('resolved', () => {
+            resolveUnresolved(app, graph, getOptions());
+        })
+    );
+
+    plugin.registerEvent(
+        app.vault.on('create', (file) => {
+            if (!isMarkdownFile(file)) return;
+            updateGraphNode(app, graph, file, getOptions());
+            resolveUnresolved(app, graph, getOptions());
+        })
+    );
+
+    plugin.registerEvent(
+        app.vault.on('delete', (file) => {
+            if (isMarkdownFile(file)) {
+                graph.removeNode(file.path);
+            }
+        })
+    );
+
+    plugin.registerEvent(
+        app.vault.on('rename', (file, oldPath) => {
+            if (!isMarkdownFile(file)) return;
+
+            // Notes that pointed at the old path need their links re-resolved
+            const children = [...graph.getNext(oldPath)];
+
+            graph.renameNode(oldPath, file.path);
+            updateGraphNode(app, graph, file, getOptions());
+
+            for (const childPath of children) {
+                const child = app.vault.getAbstractFileByPath(childPath);
+                if (child instanceof TFile) {
+                    updateGraphNode(app, graph, child, getOptions());
+                }
+            }
+            resolveUnresolved(app, graph, getOptions());
+        })
+    );
+}
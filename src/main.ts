@@ -1,41 +1,70 @@
 import { around } from 'monkey-around';
 import {
-	App,
+	Hotkey,
 	MarkdownView,
+	Notice,
 	Plugin,
-	PluginSettingTab,
-	Setting,
+	TFile,
 	ViewState,
 	WorkspaceLeaf,
 } from 'obsidian';
 import { ThreadView, THREAD_VIEW_TYPE } from './views/ThreadView';
+import { OutlineView, OUTLINE_VIEW_TYPE } from './views/OutlineView';
 import { getEditorClass } from './components/MarkdownEditor';
-import { ThreadGraph, buildGraph } from './graph';
-
-interface MyPluginSettings {
-	mySetting: string;
-}
-
-const DEFAULT_SETTINGS: MyPluginSettings = {
-	mySetting: 'default'
-};
+import { ThreadGraph, buildGraph, registerGraphEvents, isPathExcluded, createContinuationComparator } from './graph';
+import { ThreadHealthModal } from './modals/ThreadHealthModal';
+import { createThreadNote, getContinuationParent } from './commands/createThreadNote';
+import { DEFAULT_SETTINGS, ThreadNotesSettings, ThreadNotesSettingTab } from './settings';
+import { getSplitTarget, splitNote } from './commands/splitNote';
+import { SplitNoteModal } from './modals/SplitNoteModal';
+import { mergeThread } from './commands/mergeThread';
+import { MergeThreadModal } from './modals/MergeThreadModal';
+import { exportThread, ExportFormat } from './commands/exportThread';
+import { reparentNote, reportMoveFailure } from './commands/moveNote';
+import { MoveNoteModal } from './modals/MoveNoteModal';
+import { matchesGlob } from './utils/paths';
+import { ViewModeStore } from './viewModes';
+import type { ThreadNavigation } from './views/types';
+import { ThreadNotesApi } from './api';
 
 export default class MyPlugin extends Plugin {
-	settings: MyPluginSettings;
+	settings: ThreadNotesSettings;
 	MarkdownEditor: any = null;
 
 	// Thread graph for tracking prev/next relationships
 	graph: ThreadGraph = new ThreadGraph();
 
-	// Track file view modes: leafId => 'thread' | 'markdown'
-	fileModes: Record<string, string> = {};
+	// Remembered view modes from toggling, per file or per leaf
+	viewModes: ViewModeStore = new ViewModeStore(this);
+
+	// Set while unloading so the patches stop replacing markdown views
+	unloading = false;
+
+	// Public API for other plugins: app.plugins.plugins['obsidian-thread-notes'].api
+	api: ThreadNotesApi = new ThreadNotesApi(this);
 
 	async onload() {
 		await this.loadSettings();
-
-		// Build the thread graph on layout ready (after metadata cache is populated)
+		this.updateSiblingOrder();
+
+		// Re-broadcast graph events on the workspace so other plugins can listen
+		// without holding a reference to the graph
+		this.registerEvent(this.graph.on('changed', (paths) => {
+			this.app.workspace.trigger('thread-notes:graph-changed', paths);
+		}));
+		this.registerEvent(this.graph.on('added', (path, prevPath) => {
+			const node = this.graph.getNode(path);
+			if (node) this.app.workspace.trigger('thread-notes:note-added', node, prevPath);
+		}));
+		this.registerEvent(this.graph.on('renamed', (path, oldPath) => {
+			this.app.workspace.trigger('thread-notes:note-renamed', path, oldPath);
+		}));
+
+		// Build the thread graph on layout ready (after metadata cache is populated),
+		// then keep it up to date incrementally
 		this.app.workspace.onLayoutReady(() => {
-			buildGraph(this.app, this.graph);
+			buildGraph(this.app, this.graph, this.settings);
+			registerGraphEvents(this, this.graph, () => this.settings);
 		});
 
 		// Get the MarkdownEditor class from the app's embed registry
@@ -44,6 +73,9 @@ export default class MyPlugin extends Plugin {
 		// Register the Thread view
 		this.registerView(THREAD_VIEW_TYPE, (leaf) => new ThreadView(leaf, this));
 
+		// Register the Thread outline sidebar view
+		this.registerView(OUTLINE_VIEW_TYPE, (leaf) => new OutlineView(leaf, this));
+
 		// Register monkey patches for view interception
 		this.registerMonkeyPatches();
 
@@ -62,41 +94,376 @@ export default class MyPlugin extends Plugin {
 
 				const activeView = this.app.workspace.getActiveViewOfType(ThreadView);
 				if (activeView) {
-					this.fileModes[(activeView.leaf as any).id || activeFile.path] = 'markdown';
+					this.viewModes.set(getLeafId(activeView.leaf), activeFile.path, 'markdown');
 					this.setMarkdownView(activeView.leaf);
 				} else {
 					const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
 					if (markdownView) {
-						this.fileModes[(markdownView.leaf as any).id || activeFile.path] = THREAD_VIEW_TYPE;
+						this.viewModes.set(getLeafId(markdownView.leaf), activeFile.path, 'thread');
 						this.setThreadView(markdownView.leaf);
 					}
 				}
 			},
 		});
 
+		// Add commands to create thread notes from the active note
+		this.addCommand({
+			id: 'reply-to-note',
+			name: 'Reply to this note',
+			checkCallback: (checking: boolean) => this.createNoteFromActive(checking, false),
+		});
+
+		this.addCommand({
+			id: 'continue-thread',
+			name: 'Continue thread',
+			checkCallback: (checking: boolean) => this.createNoteFromActive(checking, true),
+		});
+
+		// Add command to split the active note into a chained thread
+		this.addCommand({
+			id: 'split-note-into-thread',
+			name: 'Split note into thread',
+			checkCallback: (checking: boolean) => {
+				const target = getSplitTarget(this);
+				if (!target) return false;
+
+				if (checking) return true;
+
+				new SplitNoteModal(this.app, target.cursorOffset !== null, (boundary) => {
+					splitNote(this, target, boundary).catch((error) => {
+						console.error('Splitting note failed:', error);
+						new Notice('Could not finish splitting the note, see console for details.');
+					});
+				}).open();
+				return true;
+			},
+		});
+
+		// Add command to merge the active thread into a single note
+		this.addCommand({
+			id: 'merge-thread',
+			name: 'Merge thread into one note',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) return false;
+
+				const thread = this.graph.getFullThread(activeFile.path);
+				if (thread.length < 2) return false;
+
+				if (checking) return true;
+
+				new MergeThreadModal(this.app, thread.length, async (options) => {
+					try {
+						const merged = await mergeThread(this, activeFile.path, options);
+						if (merged) {
+							await this.app.workspace.getLeaf(false).openFile(merged);
+						}
+					} catch (error) {
+						console.error('Merging thread failed:', error);
+						new Notice('Could not finish merging the thread, see console for details.');
+					}
+				}).open();
+				return true;
+			},
+		});
+
+		// Add commands to export the active thread for people without Obsidian
+		const exportFormats: { format: ExportFormat; name: string }[] = [
+			{ format: 'html', name: 'HTML' },
+			{ format: 'markdown', name: 'Markdown' },
+		];
+		for (const { format, name } of exportFormats) {
+			this.addCommand({
+				id: `export-thread-${format}`,
+				name: `Export thread as ${name}`,
+				checkCallback: (checking: boolean) => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (!activeFile) return false;
+
+					if (checking) return true;
+
+					exportThread(this, activeFile.path, format).catch((error) => {
+						console.error('Thread export failed:', error);
+						new Notice('Could not export the thread, see console for details.');
+					});
+					return true;
+				},
+			});
+		}
+
+		// Add command to move the active note (and its chain) to another thread.
+		// In a Thread view that's the focused note rather than the opened one.
+		this.addCommand({
+			id: 'move-note-to-thread',
+			name: 'Move note to another thread',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) return false;
+
+				if (checking) return true;
+
+				const threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+				const path = threadView?.getFocusedPath() ?? activeFile.path;
+				new MoveNoteModal(this, path, (target) => {
+					reparentNote(this, path, target).catch(reportMoveFailure);
+				}).open();
+				return true;
+			},
+		});
+
+		// Add command to show the thread outline in the right sidebar
+		this.addCommand({
+			id: 'open-thread-outline',
+			name: 'Open thread outline',
+			callback: () => this.activateOutlineView(),
+		});
+
+		// Add command to switch the active Thread view between editing and reading
+		this.addCommand({
+			id: 'toggle-thread-reading-mode',
+			name: 'Toggle reading mode in Thread view',
+			checkCallback: (checking: boolean) => {
+				const threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+				if (!threadView) return false;
+
+				if (checking) return true;
+
+				threadView.setReadingMode(!threadView.isReadingMode());
+				return true;
+			},
+		});
+
+		// Add commands to search (and replace) across all notes of the active Thread view.
+		// No default hotkeys: the core search and replace commands already open it there.
+		const searchCommands: { id: string; name: string; replace: boolean }[] = [
+			{ id: 'find-in-thread', name: 'Find in thread', replace: false },
+			{ id: 'replace-in-thread', name: 'Find and replace in thread', replace: true },
+		];
+		for (const { id, name, replace } of searchCommands) {
+			this.addCommand({
+				id,
+				name,
+				checkCallback: (checking: boolean) => {
+					const threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+					if (!threadView) return false;
+
+					if (checking) return true;
+
+					threadView.openSearch(replace);
+					return true;
+				},
+			});
+		}
+
+		// Add commands to move between note editors of the active Thread view
+		const navigationCommands: { target: ThreadNavigation; name: string; hotkeys: Hotkey[] }[] = [
+			{ target: 'previous', name: 'Focus previous note', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'ArrowUp' }] },
+			{ target: 'next', name: 'Focus next note', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'ArrowDown' }] },
+			{ target: 'root', name: 'Focus thread root', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'Home' }] },
+			{ target: 'end', name: 'Focus thread end', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'End' }] },
+			{ target: 'first-reply', name: 'Focus first reply', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: ']' }] },
+			{ target: 'parent', name: 'Focus note the reply branches from', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: '[' }] },
+			{ target: 'next-sibling', name: 'Focus next sibling reply', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: '.' }] },
+			{ target: 'previous-sibling', name: 'Focus previous sibling reply', hotkeys: [{ modifiers: ['Mod', 'Alt'], key: ',' }] },
+		];
+		for (const { target, name, hotkeys } of navigationCommands) {
+			this.addCommand({
+				id: `focus-${target}-note`,
+				name,
+				hotkeys,
+				checkCallback: (checking: boolean) => {
+					const threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+					if (!threadView) return false;
+
+					if (checking) return true;
+
+					threadView.navigate(target);
+					return true;
+				},
+			});
+		}
+
+		// Add command to report broken thread links
+		this.addCommand({
+			id: 'thread-health-report',
+			name: 'Show thread health report',
+			callback: () => {
+				new ThreadHealthModal(this.app, this.graph, this.settings).open();
+			},
+		});
+
+		// Keep remembered view modes attached to their files
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.viewModes.renameFile(oldPath, file.path);
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (file instanceof TFile) {
+					this.viewModes.deleteFile(file.path);
+				}
+			})
+		);
+
 		// Add settings tab
-		this.addSettingTab(new SampleSettingTab(this.app, this));
+		this.addSettingTab(new ThreadNotesSettingTab(this.app, this));
 	}
 
 	onunload() {
 		// Convert all Thread views back to markdown on unload
+		this.unloading = true;
 		this.app.workspace.getLeavesOfType(THREAD_VIEW_TYPE).forEach((leaf) => {
-			this.fileModes[(leaf as any).id] = 'markdown';
 			this.setMarkdownView(leaf);
 		});
 
 		this.MarkdownEditor = null;
-		this.fileModes = {};
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Copy the remembered modes so DEFAULT_SETTINGS is never mutated
+		this.settings.fileViewModes = { ...this.settings.fileViewModes };
+		this.settings.leafViewModes = { ...this.settings.leafViewModes };
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Rebuild the graph from scratch, e.g. after property names changed.
+	 * Open Thread views reload from the graph's change event.
+	 */
+	rebuildGraph() {
+		buildGraph(this.app, this.graph, this.settings);
+	}
+
+	/**
+	 * Apply the default reply order to the graph's fallback main continuation,
+	 * when it sorts by name, property or creation time (else creation time).
+	 * Open Thread views reload from the graph's change event.
+	 */
+	updateSiblingOrder() {
+		this.graph.setSiblingComparator(
+			createContinuationComparator(this.app, this.graph, this.settings.replySortOrder, this.settings.sortProperties)
+		);
+	}
+
+	/**
+	 * Write the pending edits of every open Thread view, so commands that read
+	 * notes from disk see what was just typed
+	 */
+	async flushThreadViews() {
+		await Promise.all(this.app.workspace.getLeavesOfType(THREAD_VIEW_TYPE).map((leaf) =>
+			leaf.view instanceof ThreadView ? leaf.view.flushAll() : Promise.resolve()
+		));
+	}
+
+	/**
+	 * Re-render all open Thread views with the current settings
+	 */
+	refreshThreadViews() {
+		this.app.workspace.getLeavesOfType(THREAD_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof ThreadView) {
+				leaf.view.refresh();
+			}
+		});
+	}
+
+	/**
+	 * Whether a file should open in Thread view automatically.
+	 * A frontmatter override wins; otherwise the note must pass the folder
+	 * rules and, if configured, take part in a thread.
+	 */
+	shouldAutoReplace(path: string): boolean {
+		const { settings } = this;
+		if (!settings.autoReplaceMarkdown) return false;
+
+		const override = this.app.metadataCache.getCache(path)?.frontmatter?.[settings.viewOverrideKey];
+		if (typeof override === 'boolean') return override;
+
+		if (isPathExcluded(path, settings.excludedFolders)) return false;
+		if (settings.threadViewExcludes.some(pattern => matchesGlob(path, pattern))) return false;
+		if (settings.threadViewIncludes.length > 0 && !settings.threadViewIncludes.some(pattern => matchesGlob(path, pattern))) {
+			return false;
+		}
+
+		return !settings.autoReplaceThreadedOnly || this.graph.isThreaded(path);
+	}
+
+	/**
+	 * Whether a file shown in a leaf should use Thread view: a remembered
+	 * toggle wins, otherwise the auto-replace rules decide
+	 */
+	shouldUseThreadView(leafId: string | undefined, path: string): boolean {
+		if (this.unloading) return false;
+
+		const remembered = this.viewModes.get(leafId, path);
+		if (remembered) return remembered === 'thread';
+
+		return this.shouldAutoReplace(path);
+	}
+
+	/**
+	 * Create a reply or continuation of the active note (in a Thread view,
+	 * the focused note). Thread views show it in place; otherwise the new
+	 * note is opened.
+	 */
+	createNoteFromActive(checking: boolean, isMain: boolean): boolean {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) return false;
+
+		if (checking) return true;
+
+		const threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+		if (threadView) {
+			threadView.createNote(threadView.getFocusedPath() ?? activeFile.path, isMain);
+		} else {
+			const parent = isMain ? getContinuationParent(this, activeFile.path) : activeFile.path;
+			createThreadNote(this, parent, { isMain }).then((file) => {
+				if (file) {
+					return this.app.workspace.getLeaf(false).openFile(file);
+				}
+			}).catch((error) => {
+				console.error('Creating thread note failed:', error);
+				new Notice('Could not create the note, see console for details.');
+			});
+		}
+		return true;
+	}
+
+	/**
+	 * Open a note as markdown in a new tab, without changing how it opens elsewhere
+	 */
+	async openAsMarkdown(file: TFile) {
+		const leaf = this.app.workspace.getLeaf('tab');
+		const id = getLeafId(leaf);
+		if (id) {
+			await this.viewModes.setForLeaf(id, file.path, 'markdown');
+		}
+		await leaf.openFile(file);
+	}
+
+	/**
+	 * Reveal the Thread outline, creating it in the right sidebar if needed
+	 */
+	async activateOutlineView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(OUTLINE_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({ type: OUTLINE_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
+		}
+		workspace.revealLeaf(leaf);
+	}
+
 	/**
 	 * Set a leaf to Thread view
 	 */
@@ -127,11 +494,8 @@ export default class MyPlugin extends Plugin {
 		this.app.workspace.iterateAllLeaves((leaf) => {
 			if (leaf.view instanceof MarkdownView) {
 				const state = leaf.view.getState();
-				const leafId = (leaf as any).id || state?.file;
 
-				// Only replace if not explicitly set to markdown mode
-				if (this.fileModes[leafId] !== 'markdown') {
-					this.fileModes[leafId] = THREAD_VIEW_TYPE;
+				if (state?.file && this.shouldUseThreadView(getLeafId(leaf), state.file as string)) {
 					this.setThreadView(leaf);
 				}
 			}
@@ -142,8 +506,16 @@ export default class MyPlugin extends Plugin {
 	 * Register layout events to replace markdown leaves
 	 */
 	registerLayoutEvents() {
-		// On layout ready, replace all markdown leaves
+		// On layout ready, replace all markdown leaves and forget modes of
+		// leaves that were closed while the plugin wasn't running
 		this.app.workspace.onLayoutReady(() => {
+			const leafIds = new Set<string>();
+			this.app.workspace.iterateAllLeaves((leaf) => {
+				const id = getLeafId(leaf);
+				if (id) leafIds.add(id);
+			});
+			this.viewModes.pruneLeaves(leafIds);
+
 			this.replaceMarkdownLeaves();
 		});
 
@@ -164,12 +536,12 @@ export default class MyPlugin extends Plugin {
 		// Monkey patch WorkspaceLeaf.setViewState to intercept markdown views
 		this.register(
 			around(WorkspaceLeaf.prototype, {
-				// Clean up file modes when leaf is detached
+				// Clean up the leaf's remembered mode when it is closed
 				detach(next) {
 					return function (this: WorkspaceLeaf) {
-						const state = this.view?.getState();
-						if (state?.file && self.fileModes[(this as any).id || state.file]) {
-							delete self.fileModes[(this as any).id || state.file];
+						const id = getLeafId(this);
+						if (id && !self.unloading) {
+							self.viewModes.forgetLeaf(id);
 						}
 						return next.apply(this);
 					};
@@ -182,15 +554,14 @@ export default class MyPlugin extends Plugin {
 						if (
 							state.type === 'markdown' &&
 							state.state?.file &&
-							// And it's not explicitly set to markdown mode
-							self.fileModes[(this as any).id || state.state.file] !== 'markdown'
+							// And the remembered mode or the rules ask for Thread view
+							self.shouldUseThreadView(getLeafId(this), state.state.file as string)
 						) {
 							// Replace with Thread view
 							const newState: ViewState = {
 								...state,
 								type: THREAD_VIEW_TYPE,
 							};
-							self.fileModes[(this as any).id || state.state.file] = THREAD_VIEW_TYPE;
 							return next.apply(this, [newState, ...rest]);
 						}
 
@@ -202,27 +573,9 @@ export default class MyPlugin extends Plugin {
 	}
 }
 
-class SampleSettingTab extends PluginSettingTab {
-	plugin: MyPlugin;
-
-	constructor(app: App, plugin: MyPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
-
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
-
-		new Setting(containerEl)
-			.setName('Setting #1')
-			.setDesc('It\'s a secret')
-			.addText(text => text
-				.setPlaceholder('Enter your secret')
-				.setValue(this.plugin.settings.mySetting)
-				.onChange(async (value) => {
-					this.plugin.settings.mySetting = value;
-					await this.plugin.saveSettings();
-				}));
-	}
+/**
+ * Leaf ids aren't part of the public API, but are stable across restarts
+ */
+function getLeafId(leaf: WorkspaceLeaf): string | undefined {
+	return (leaf as any).id;
 }
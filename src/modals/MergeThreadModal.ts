@@ -0,0 +1,88 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DEFAULT_MERGE_OPTIONS, MergeThreadOptions, OriginalNotesAction } from '../commands/mergeThread';
+
+/**
+ * Ask how a thread should be merged into a single note
+ */
+export class MergeThreadModal extends Modal {
+    private options: MergeThreadOptions = { ...DEFAULT_MERGE_OPTIONS };
+    private noteCount: number;
+    private onSubmit: (options: MergeThreadOptions) => void;
+
+    constructor(app: App, noteCount: number, onSubmit: (options: MergeThreadOptions) => void) {
+        super(app);
+        this.noteCount = noteCount;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(`Merge ${this.noteCount} notes into one`);
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl, options } = this;
+        contentEl.empty();
+
+        new Setting(contentEl)
+            .setName('Note headings')
+            .setDesc('Start each section with the title of its note.')
+            .addToggle(toggle => toggle
+                .setValue(options.headings)
+                .onChange(value => { options.headings = value; }));
+
+        new Setting(contentEl)
+            .setName('Separators')
+            .setDesc('Put a horizontal rule between notes.')
+            .addToggle(toggle => toggle
+                .setValue(options.separators)
+                .onChange(value => { options.separators = value; }));
+
+        new Setting(contentEl)
+            .setName('Source links')
+            .setDesc('Link each section back to the note it came from.')
+            .addToggle(toggle => toggle
+                .setValue(options.sourceLinks)
+                .onChange(value => { options.sourceLinks = value; }));
+
+        new Setting(contentEl)
+            .setName('Move replies')
+            .setDesc('Point replies to any note of the thread at the merged note.')
+            .addToggle(toggle => toggle
+                .setValue(options.repointReplies)
+                .onChange(value => { options.repointReplies = value; }));
+
+        new Setting(contentEl)
+            .setName('Original notes')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep')
+                .addOption('archive', 'Move to archive folder')
+                .addOption('delete', 'Delete')
+                .setValue(options.originals)
+                .onChange(value => {
+                    options.originals = value as OriginalNotesAction;
+                    this.render();
+                }));
+
+        if (options.originals === 'archive') {
+            new Setting(contentEl)
+                .setName('Archive folder')
+                .addText(text => text
+                    .setValue(options.archiveFolder)
+                    .onChange(value => { options.archiveFolder = value.trim(); }));
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Merge')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit(options);
+                }));
+    }
+}
@@ -0,0 +1,109 @@
+import { FuzzyMatch, FuzzySuggestModal, TFile } from 'obsidian';
+import { extractFrontmatter } from '../utils/frontmatter';
+import type MyPlugin from '../main';
+
+/**
+ * A candidate parent, or null to detach the note into its own thread
+ */
+interface MoveTarget {
+    path: string | null;
+}
+
+function getBasename(path: string): string {
+    return path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+}
+
+/**
+ * Pick a new parent note for a note and its forward chain
+ */
+export class MoveNoteModal extends FuzzySuggestModal<MoveTarget> {
+    private plugin: MyPlugin;
+    private path: string;
+    private onChoose: (target: string | null) => void;
+
+    // First non-empty line of each threaded candidate, loaded when the modal opens
+    private firstLines: Map<string, string> = new Map();
+    private closed = false;
+
+    constructor(plugin: MyPlugin, path: string, onChoose: (target: string | null) => void) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.path = path;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Move note under…');
+    }
+
+    onOpen(): void {
+        super.onOpen();
+        this.loadFirstLines();
+    }
+
+    onClose(): void {
+        super.onClose();
+        this.closed = true;
+    }
+
+    /**
+     * Read first lines of notes that are part of a thread only; the graph
+     * holds every markdown file, and reading the whole vault would be slow
+     */
+    private async loadFirstLines(): Promise<void> {
+        const { graph } = this.plugin;
+        for (const path of graph.getAllNodes()) {
+            if (this.closed) return;
+            if (!graph.isThreaded(path)) continue;
+
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const { body } = extractFrontmatter(await this.app.vault.cachedRead(file));
+            const firstLine = body.split('\n').map(l => l.trim()).find(l => l.length > 0);
+            if (firstLine) {
+                this.firstLines.set(path, firstLine);
+            }
+        }
+
+        // Refresh the suggestions now that first lines can be matched
+        this.inputEl.dispatchEvent(new Event('input'));
+    }
+
+    getItems(): MoveTarget[] {
+        const { graph } = this.plugin;
+        const items: MoveTarget[] = graph.getAllNodes()
+            .filter(p => p !== this.path)
+            .map(path => ({ path }));
+
+        if (graph.getPrev(this.path) !== null) {
+            items.unshift({ path: null });
+        }
+        return items;
+    }
+
+    getItemText(item: MoveTarget): string {
+        if (item.path === null) return 'Detach: start a new thread';
+
+        const root = this.plugin.graph.getThreadRoot(item.path);
+        return [getBasename(item.path), getBasename(root), this.firstLines.get(item.path) ?? ''].join(' ');
+    }
+
+    renderSuggestion(match: FuzzyMatch<MoveTarget>, el: HTMLElement): void {
+        const { path } = match.item;
+        if (path === null) {
+            el.createDiv({ text: 'Detach: start a new thread' });
+            el.createEl('small', { cls: 'thread-move-suggestion-note', text: 'Clear prev so the note starts its own thread' });
+            return;
+        }
+
+        const root = this.plugin.graph.getThreadRoot(path);
+        el.createDiv({ text: getBasename(path) });
+
+        const details = [`Thread: ${getBasename(root)}`];
+        const firstLine = this.firstLines.get(path);
+        if (firstLine) details.push(firstLine);
+        el.createEl('small', { cls: 'thread-move-suggestion-note', text: details.join(' · ') });
+    }
+
+    onChooseItem(item: MoveTarget): void {
+        this.onChoose(item.path);
+    }
+}
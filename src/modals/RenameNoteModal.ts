@@ -0,0 +1,74 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { joinPath } from '../utils/paths';
+
+// Characters Obsidian doesn't allow in note names (or that break links)
+const ILLEGAL_NAME_CHARS = /[\\/:*?"<>|#^[\]]/;
+
+/**
+ * Ask for a new name for a note and rename it, keeping links up to date
+ */
+export class RenameNoteModal extends Modal {
+    private file: TFile;
+    private name: string;
+
+    constructor(app: App, file: TFile) {
+        super(app);
+        this.file = file;
+        this.name = file.basename;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Rename note');
+
+        new Setting(this.contentEl)
+            .setName('New name')
+            .addText(text => {
+                text.setValue(this.name).onChange(value => { this.name = value; });
+                text.inputEl.addEventListener('keydown', (evt) => {
+                    if (evt.key === 'Enter' && !evt.isComposing) {
+                        evt.preventDefault();
+                        this.submit();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.select());
+            });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Rename')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private async submit(): Promise<void> {
+        const name = this.name.trim();
+        if (!name || name === this.file.basename) {
+            this.close();
+            return;
+        }
+        if (ILLEGAL_NAME_CHARS.test(name)) {
+            new Notice('Note names can\'t contain any of \\ / : * ? " < > | # ^ [ ]');
+            return;
+        }
+
+        const folder = this.file.parent?.path ?? '';
+        const newPath = joinPath(folder === '/' ? '' : folder, `${name}.${this.file.extension}`);
+        if (this.app.vault.getAbstractFileByPath(newPath)) {
+            new Notice(`A file named "${name}" already exists.`);
+            return;
+        }
+
+        this.close();
+        try {
+            // Updates links to the note, including prev links of its replies
+            await this.app.fileManager.renameFile(this.file, newPath);
+        } catch (error) {
+            console.error('Renaming note failed:', error);
+            new Notice('Could not rename the note, see console for details.');
+        }
+    }
+}
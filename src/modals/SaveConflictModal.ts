@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export type ConflictResolution = 'keep-mine' | 'reload';
+
+/**
+ * Ask what to do when a note changed on disk while it had unsaved edits
+ */
+export class SaveConflictModal extends Modal {
+    private path: string;
+    private resolve: (resolution: ConflictResolution) => void;
+    private resolved = false;
+
+    constructor(app: App, path: string, resolve: (resolution: ConflictResolution) => void) {
+        super(app);
+        this.path = path;
+        this.resolve = resolve;
+    }
+
+    /**
+     * Open the modal and wait for a choice. Closing it reloads from disk,
+     * since that never overwrites someone else's changes.
+     */
+    static prompt(app: App, path: string): Promise<ConflictResolution> {
+        return new Promise(resolve => new SaveConflictModal(app, path, resolve).open());
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Note changed on disk');
+        this.contentEl.createEl('p', {
+            text: `${this.path} was modified outside this Thread view while you were editing it.`,
+        });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Reload from disk')
+                .onClick(() => this.choose('reload')))
+            .addButton(button => button
+                .setButtonText('Keep mine')
+                .setWarning()
+                .onClick(() => this.choose('keep-mine')));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (!this.resolved) {
+            this.resolved = true;
+            this.resolve('reload');
+        }
+    }
+
+    private choose(resolution: ConflictResolution): void {
+        this.resolved = true;
+        this.resolve(resolution);
+        this.close();
+    }
+}
@@ -0,0 +1,43 @@
+import { App, SuggestModal } from 'obsidian';
+import type { SplitBoundary } from '../commands/splitNote';
+
+interface BoundaryOption {
+    boundary: SplitBoundary;
+    label: string;
+}
+
+const BOUNDARY_OPTIONS: BoundaryOption[] = [
+    { boundary: 'headings', label: 'At each H1/H2 heading' },
+    { boundary: 'separators', label: 'At each horizontal rule (---)' },
+    { boundary: 'cursor', label: 'At the cursor position' },
+];
+
+/**
+ * Ask where a note should be split
+ */
+export class SplitNoteModal extends SuggestModal<BoundaryOption> {
+    private hasCursor: boolean;
+    private onChoose: (boundary: SplitBoundary) => void;
+
+    constructor(app: App, hasCursor: boolean, onChoose: (boundary: SplitBoundary) => void) {
+        super(app);
+        this.hasCursor = hasCursor;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Split note…');
+    }
+
+    getSuggestions(query: string): BoundaryOption[] {
+        const lower = query.toLowerCase();
+        return BOUNDARY_OPTIONS
+            .filter(o => o.boundary !== 'cursor' || this.hasCursor)
+            .filter(o => o.label.toLowerCase().includes(lower));
+    }
+
+    renderSuggestion(option: BoundaryOption, el: HTMLElement): void {
+        el.setText(option.label);
+    }
+
+    onChooseSuggestion(option: BoundaryOption): void {
+        this.onChoose(option.boundary);
+    }
+}
@@ -0,0 +1,73 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Ask which fragment each reply of a split note should attach to.
+ * Resolves to reply path → fragment index, or null if the split was cancelled.
+ */
+export class SplitRepliesModal extends Modal {
+    private replies: string[];
+    private fragmentLabels: string[];
+    private choices = new Map<string, number>();
+    private resolve: (choices: Map<string, number> | null) => void;
+    private resolved = false;
+
+    constructor(
+        app: App,
+        replies: string[],
+        fragmentLabels: string[],
+        resolve: (choices: Map<string, number> | null) => void
+    ) {
+        super(app);
+        this.replies = replies;
+        this.fragmentLabels = fragmentLabels;
+        this.resolve = resolve;
+
+        // Default to the last fragment, which ends with the text the replies last saw
+        for (const reply of replies) {
+            this.choices.set(reply, fragmentLabels.length - 1);
+        }
+    }
+
+    static prompt(app: App, replies: string[], fragmentLabels: string[]): Promise<Map<string, number> | null> {
+        return new Promise(resolve => new SplitRepliesModal(app, replies, fragmentLabels, resolve).open());
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Attach replies');
+        this.contentEl.createEl('p', {
+            text: 'Choose the part of the split note each reply answers.',
+        });
+
+        for (const reply of this.replies) {
+            new Setting(this.contentEl)
+                .setName(reply.split('/').pop()?.replace(/\.md$/, '') ?? reply)
+                .addDropdown(dropdown => {
+                    this.fragmentLabels.forEach((label, i) => dropdown.addOption(String(i), label));
+                    dropdown
+                        .setValue(String(this.choices.get(reply)))
+                        .onChange(value => this.choices.set(reply, Number(value)));
+                });
+        }
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Split')
+                .setCta()
+                .onClick(() => {
+                    this.resolved = true;
+                    this.resolve(this.choices);
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (!this.resolved) {
+            this.resolved = true;
+            this.resolve(null);
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { setMainThreadMarker, setPrevLink } from '../utils/threadFrontmatter';
+import type { FrontmatterKeys, ThreadGraph, ThreadIssue } from '../graph';
+
+const ISSUE_LABELS: Record<ThreadIssue['type'], string> = {
+    'cycle': 'Cycle in prev links',
+    'self-reference': 'Note points at itself',
+    'dangling': 'Previous note does not exist',
+    'competing-main': 'Several replies marked as main thread',
+};
+
+/**
+ * Get the obvious fix for an issue, if there is one
+ */
+function getFix(app: App, keys: FrontmatterKeys, issue: ThreadIssue): { label: string; apply: () => Promise<void> } | null {
+    const getFile = (path: string): TFile | null => {
+        const file = app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file : null;
+    };
+
+    switch (issue.type) {
+        case 'self-reference':
+        case 'dangling':
+            // Start a new thread at the note instead of pointing nowhere
+            return {
+                label: 'Clear prev',
+                apply: async () => {
+                    const file = getFile(issue.path);
+                    if (file) await setPrevLink(app, keys, file, null);
+                },
+            };
+        case 'cycle':
+            // Clearing one member's prev turns the loop back into a chain
+            return {
+                label: `Clear prev of ${getFile(issue.path)?.basename ?? issue.path}`,
+                apply: async () => {
+                    const file = getFile(issue.path);
+                    if (file) await setPrevLink(app, keys, file, null);
+                },
+            };
+        case 'competing-main':
+            // Keep the first marked reply as main, demote the rest
+            return {
+                label: 'Keep first as main',
+                apply: async () => {
+                    for (const path of issue.related.slice(1)) {
+                        const file = getFile(path);
+                        if (file) await setMainThreadMarker(app, keys, file, false);
+                    }
+                },
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Modal listing integrity problems in the thread graph
+ */
+export class ThreadHealthModal extends Modal {
+    private graph: ThreadGraph;
+    private keys: FrontmatterKeys;
+
+    constructor(app: App, graph: ThreadGraph, keys: FrontmatterKeys) {
+        super(app);
+        this.graph = graph;
+        this.keys = keys;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Thread health report');
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('thread-health-report');
+
+        const issues = this.graph.getDiagnostics();
+        if (issues.length === 0) {
+            contentEl.createEl('p', { text: 'No problems found.' });
+            return;
+        }
+
+        const list = contentEl.createEl('ul', { cls: 'thread-health-issues' });
+        for (const issue of issues) {
+            this.renderIssue(list.createEl('li', { cls: `thread-health-issue is-${issue.type}` }), issue);
+        }
+    }
+
+    private renderIssue(itemEl: HTMLElement, issue: ThreadIssue): void {
+        itemEl.createDiv({ cls: 'thread-health-issue-title', text: ISSUE_LABELS[issue.type] });
+
+        const notesEl = itemEl.createDiv({ cls: 'thread-health-issue-notes' });
+        this.renderLink(notesEl, issue.path);
+        for (const path of issue.related) {
+            notesEl.appendText(issue.type === 'cycle' ? ' → ' : ', ');
+            if (issue.type === 'dangling') {
+                notesEl.createSpan({ cls: 'thread-health-missing', text: path });
+            } else {
+                this.renderLink(notesEl, path);
+            }
+        }
+
+        const fix = getFix(this.app, this.keys, issue);
+        if (fix) {
+            const button = itemEl.createEl('button', { cls: 'mod-cta', text: fix.label });
+            button.addEventListener('click', async () => {
+                button.disabled = true;
+                try {
+                    await fix.apply();
+                    itemEl.remove();
+                } catch (error) {
+                    console.error('Thread health fix failed:', error);
+                    new Notice('Could not apply fix, see console for details.');
+                    button.disabled = false;
+                }
+            });
+        }
+    }
+
+    private renderLink(parentEl: HTMLElement, path: string): void {
+        const link = parentEl.createEl('a', { cls: 'internal-link', text: path });
+        link.addEventListener('click', (evt) => {
+            evt.preventDefault();
+            this.app.workspace.openLinkText(path, '', true);
+            this.close();
+        });
+    }
+}
@@ -0,0 +1,315 @@
+import { App, PluginSettingTab, Setting, debounce } from 'obsidian';
+import type { GraphOptions, NoteSortOrder, SortOptions } from './graph';
+import type { NewNoteNamePattern } from './commands/createThreadNote';
+import type MyPlugin from './main';
+
+/**
+ * Reply orders offered in the settings and the Thread view menu
+ */
+export const REPLY_SORT_OPTIONS: { order: NoteSortOrder; label: string }[] = [
+    { order: 'ctime-asc', label: 'Created (oldest first)' },
+    { order: 'ctime-desc', label: 'Created (newest first)' },
+    { order: 'mtime-asc', label: 'Modified (oldest first)' },
+    { order: 'mtime-desc', label: 'Modified (newest first)' },
+    { order: 'name-asc', label: 'File name (A to Z)' },
+    { order: 'name-desc', label: 'File name (Z to A)' },
+    { order: 'property-asc', label: 'Order property (ascending)' },
+    { order: 'property-desc', label: 'Order property (descending)' },
+    { order: 'activity-desc', label: 'Latest activity (recent first)' },
+    { order: 'activity-asc', label: 'Latest activity (recent last)' },
+    { order: 'replies-desc', label: 'Replies (most first)' },
+    { order: 'replies-asc', label: 'Replies (fewest first)' },
+];
+
+export type ViewMode = 'thread' | 'markdown';
+
+/** Whether a toggled view mode is remembered for the note or only its tab */
+export type ViewModeScope = 'file' | 'leaf';
+
+export interface LeafViewMode {
+    file: string;
+    mode: ViewMode;
+}
+
+export interface ThreadNotesSettings extends GraphOptions, SortOptions {
+    /** Folder for new thread notes (empty: next to the parent note) */
+    newNoteFolder: string;
+    /** How new thread notes are named */
+    newNoteNamePattern: NewNoteNamePattern;
+    /** Moment.js format used by the timestamp name pattern */
+    newNoteDateFormat: string;
+    /** Render notes other than the opened one read-only until clicked */
+    readOnlyOtherNotes: boolean;
+    /** Show a composer under each reply chain, not just the main thread */
+    showReplyComposers: boolean;
+    /** Open markdown notes in Thread view automatically */
+    autoReplaceMarkdown: boolean;
+    /** Only open notes that have a prev link or a next note in Thread view */
+    autoReplaceThreadedOnly: boolean;
+    /** Glob patterns; when set, only matching notes open in Thread view */
+    threadViewIncludes: string[];
+    /** Glob patterns for notes that always open as markdown */
+    threadViewExcludes: string[];
+    /** Frontmatter property that forces (true) or prevents (false) Thread view per note */
+    viewOverrideKey: string;
+    /** Where "Toggle Thread view" choices are remembered */
+    viewModeScope: ViewModeScope;
+    /** Remembered view modes by file path (not shown in the settings tab) */
+    fileViewModes: Record<string, ViewMode>;
+    /** Remembered view modes by leaf id (not shown in the settings tab) */
+    leafViewModes: Record<string, LeafViewMode>;
+}
+
+export const DEFAULT_SETTINGS: ThreadNotesSettings = {
+    prevKey: 'prev',
+    threadKey: 'thread',
+    excludedFolders: [],
+    newNoteFolder: '',
+    newNoteNamePattern: 'timestamp',
+    newNoteDateFormat: 'YYYY-MM-DD HHmmss',
+    readOnlyOtherNotes: false,
+    showReplyComposers: false,
+    replySortOrder: 'ctime-asc',
+    sortProperties: ['order', 'created'],
+    autoReplaceMarkdown: true,
+    autoReplaceThreadedOnly: true,
+    threadViewIncludes: [],
+    threadViewExcludes: [],
+    viewOverrideKey: 'thread-view',
+    viewModeScope: 'file',
+    fileViewModes: {},
+    leafViewModes: {},
+};
+
+/**
+ * Split a multi-line text setting into trimmed, non-empty entries
+ */
+function parseLines(value: string): string[] {
+    return value
+        .split('\n')
+        .map(line => line.trim().replace(/\/+$/, ''))
+        .filter(line => line.length > 0);
+}
+
+export class ThreadNotesSettingTab extends PluginSettingTab {
+    plugin: MyPlugin;
+
+    // Property names and exclusions change the graph; rebuild once typing pauses
+    private requestRebuild = debounce(() => this.plugin.rebuildGraph(), 500, true);
+
+    constructor(app: App, plugin: MyPlugin) {
+        super(app, plugin);
+        this.plugin = plugin;
+    }
+
+    display(): void {
+        const { containerEl } = this;
+        const { settings } = this.plugin;
+        containerEl.empty();
+
+        new Setting(containerEl).setName('Properties').setHeading();
+
+        new Setting(containerEl)
+            .setName('Previous note property')
+            .setDesc('Frontmatter property linking a note to the note it follows.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.prevKey)
+                .setValue(settings.prevKey)
+                .onChange(async (value) => {
+                    settings.prevKey = value.trim() || DEFAULT_SETTINGS.prevKey;
+                    await this.plugin.saveSettings();
+                    this.requestRebuild();
+                }));
+
+        new Setting(containerEl)
+            .setName('Main thread property')
+            .setDesc('Frontmatter property that is true on the main continuation of a thread.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.threadKey)
+                .setValue(settings.threadKey)
+                .onChange(async (value) => {
+                    settings.threadKey = value.trim() || DEFAULT_SETTINGS.threadKey;
+                    await this.plugin.saveSettings();
+                    this.requestRebuild();
+                }));
+
+        new Setting(containerEl)
+            .setName('Excluded folders')
+            .setDesc('Notes in these folders are not part of any thread. One folder per line.')
+            .addTextArea(text => text
+                .setPlaceholder('Templates')
+                .setValue(settings.excludedFolders.join('\n'))
+                .onChange(async (value) => {
+                    settings.excludedFolders = parseLines(value);
+                    await this.plugin.saveSettings();
+                    this.requestRebuild();
+                }));
+
+        new Setting(containerEl).setName('New notes').setHeading();
+
+        new Setting(containerEl)
+            .setName('New note folder')
+            .setDesc('Where replies and continuations are created. Leave empty to use the parent note\'s folder.')
+            .addText(text => text
+                .setPlaceholder('Example: threads')
+                .setValue(settings.newNoteFolder)
+                .onChange(async (value) => {
+                    settings.newNoteFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('New note name')
+            .setDesc('How new thread notes are named.')
+            .addDropdown(dropdown => dropdown
+                .addOption('timestamp', 'Timestamp')
+                .addOption('counter', 'Thread root name and counter')
+                .addOption('first-line', 'First line of the note')
+                .setValue(settings.newNoteNamePattern)
+                .onChange(async (value) => {
+                    settings.newNoteNamePattern = value as NewNoteNamePattern;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (settings.newNoteNamePattern !== 'counter') {
+            new Setting(containerEl)
+                .setName('Timestamp format')
+                .setDesc('Moment.js format for timestamp names (also the fallback when a note has no first line).')
+                .addMomentFormat(format => format
+                    .setDefaultFormat(DEFAULT_SETTINGS.newNoteDateFormat)
+                    .setValue(settings.newNoteDateFormat)
+                    .onChange(async (value) => {
+                        settings.newNoteDateFormat = value || DEFAULT_SETTINGS.newNoteDateFormat;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl).setName('Thread view').setHeading();
+
+        new Setting(containerEl)
+            .setName('Open notes in Thread view')
+            .setDesc('Replace the markdown view with Thread view automatically.')
+            .addToggle(toggle => toggle
+                .setValue(settings.autoReplaceMarkdown)
+                .onChange(async (value) => {
+                    settings.autoReplaceMarkdown = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        this.plugin.replaceMarkdownLeaves();
+                    }
+                    this.display();
+                }));
+
+        if (settings.autoReplaceMarkdown) {
+            new Setting(containerEl)
+                .setName('Only notes in a thread')
+                .setDesc('Open a note in Thread view only if it has a previous note or a note following it.')
+                .addToggle(toggle => toggle
+                    .setValue(settings.autoReplaceThreadedOnly)
+                    .onChange(async (value) => {
+                        settings.autoReplaceThreadedOnly = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.replaceMarkdownLeaves();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Include paths')
+                .setDesc('Only notes matching one of these folders or glob patterns open in Thread view. Leave empty to allow all. One per line.')
+                .addTextArea(text => text
+                    .setPlaceholder('Journal/**')
+                    .setValue(settings.threadViewIncludes.join('\n'))
+                    .onChange(async (value) => {
+                        settings.threadViewIncludes = parseLines(value);
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Exclude paths')
+                .setDesc('Notes matching one of these folders or glob patterns always open as markdown. One per line.')
+                .addTextArea(text => text
+                    .setPlaceholder('Templates\n**/*.excalidraw.md')
+                    .setValue(settings.threadViewExcludes.join('\n'))
+                    .onChange(async (value) => {
+                        settings.threadViewExcludes = parseLines(value);
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Override property')
+                .setDesc('Frontmatter property that forces a note into Thread view (true) or markdown (false), regardless of the rules above.')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.viewOverrideKey)
+                    .setValue(settings.viewOverrideKey)
+                    .onChange(async (value) => {
+                        settings.viewOverrideKey = value.trim() || DEFAULT_SETTINGS.viewOverrideKey;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Remember toggled view')
+            .setDesc('When switching a note between Thread view and markdown, keep that choice for the note everywhere or only in its tab.')
+            .addDropdown(dropdown => dropdown
+                .addOption('file', 'For the note')
+                .addOption('leaf', 'For the tab')
+                .setValue(settings.viewModeScope)
+                .onChange(async (value) => {
+                    settings.viewModeScope = value as ViewModeScope;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Reply order')
+            .setDesc('Default order of reply chains under a note. When no note is marked as the main thread, the first note in this order continues it (by creation time for orders that change with edits). Each Thread view can override the order from its menu.')
+            .addDropdown(dropdown => {
+                for (const { order, label } of REPLY_SORT_OPTIONS) {
+                    dropdown.addOption(order, label);
+                }
+                dropdown
+                    .setValue(settings.replySortOrder)
+                    .onChange(async (value) => {
+                        settings.replySortOrder = value as NoteSortOrder;
+                        await this.plugin.saveSettings();
+                        this.plugin.updateSiblingOrder();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Order properties')
+            .setDesc('Frontmatter properties used by the "Order property" sort, checked in turn. Numbers and dates are compared by value. Comma-separated.')
+            .addText(text => text
+                .setPlaceholder('order, created')
+                .setValue(settings.sortProperties.join(', '))
+                .onChange(async (value) => {
+                    settings.sortProperties = value
+                        .split(',')
+                        .map(property => property.trim())
+                        .filter(property => property.length > 0);
+                    await this.plugin.saveSettings();
+                    this.plugin.updateSiblingOrder();
+                }));
+
+        new Setting(containerEl)
+            .setName('Render other notes read-only')
+            .setDesc('Only the opened note gets an editor; other notes are rendered and switch to an editor when clicked. Use the book icon in a Thread view to read all notes rendered.')
+            .addToggle(toggle => toggle
+                .setValue(settings.readOnlyOtherNotes)
+                .onChange(async (value) => {
+                    settings.readOnlyOtherNotes = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshThreadViews();
+                }));
+
+        new Setting(containerEl)
+            .setName('Composer under replies')
+            .setDesc('Show a compose box under each reply chain so replies can be answered inline.')
+            .addToggle(toggle => toggle
+                .setValue(settings.showReplyComposers)
+                .onChange(async (value) => {
+                    settings.showReplyComposers = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshThreadViews();
+                }));
+    }
+}
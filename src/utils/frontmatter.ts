@@ -0,0 +1,17 @@
+// Regex to match YAML frontmatter at the start of a file
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Extract YAML frontmatter from content.
+ * Returns the frontmatter string (including delimiters) and the remaining content.
+ */
+export function extractFrontmatter(content: string): { frontmatter: string; body: string } {
+    const match = content.match(FRONTMATTER_REGEX);
+    if (match) {
+        return {
+            frontmatter: match[0],
+            body: content.slice(match[0].length),
+        };
+    }
+    return { frontmatter: '', body: content };
+}
@@ -0,0 +1,74 @@
+import { App, normalizePath } from 'obsidian';
+
+/**
+ * Join a folder ('' for the vault root) and a file name
+ */
+export function joinPath(folder: string, name: string): string {
+    return normalizePath(folder ? `${folder}/${name}` : name);
+}
+
+/**
+ * Find a path that doesn't exist yet by appending a number if needed
+ */
+export function getAvailablePath(app: App, folder: string, baseName: string, extension = 'md'): string {
+    let path = joinPath(folder, `${baseName}.${extension}`);
+    let suffix = 1;
+    while (app.vault.getAbstractFileByPath(path)) {
+        path = joinPath(folder, `${baseName} ${suffix}.${extension}`);
+        suffix++;
+    }
+    return path;
+}
+
+/**
+ * Normalize a folder setting to a vault folder path ('' for the vault root)
+ * and create it if it doesn't exist
+ */
+export async function ensureFolder(app: App, folder: string): Promise<string> {
+    const normalized = normalizePath(folder || '/');
+    if (normalized === '/') return '';
+
+    if (!app.vault.getAbstractFileByPath(normalized)) {
+        await app.vault.createFolder(normalized);
+    }
+    return normalized;
+}
+
+/**
+ * Convert a glob pattern to a regex matching whole vault paths.
+ * `**` matches across folders, `*` and `?` stay within one path segment.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` also matches zero folders
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches a glob pattern.
+ * A pattern without wildcards matches that folder (or file) and everything inside it.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+    if (!/[*?]/.test(pattern)) {
+        return path === pattern || path.startsWith(pattern + '/');
+    }
+    return globToRegExp(pattern).test(path);
+}
@@ -0,0 +1,66 @@
+import { App, TFile } from 'obsidian';
+import type { FrontmatterKeys } from '../graph';
+
+/**
+ * Format a prev link to the parent, as written in frontmatter
+ */
+export function formatPrevLink(app: App, parent: TFile, sourcePath: string): string {
+    const linktext = app.metadataCache.fileToLinktext(parent, sourcePath, true);
+    return `[[${linktext}]]`;
+}
+
+/**
+ * Point a note's prev at another note, or clear it when parent is null
+ */
+export async function setPrevLink(app: App, keys: FrontmatterKeys, file: TFile, parent: TFile | null): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (fm) => {
+        if (parent) {
+            fm[keys.prevKey] = formatPrevLink(app, parent, file.path);
+        } else {
+            delete fm[keys.prevKey];
+        }
+    });
+}
+
+/**
+ * Set or clear the main-thread marker on a note
+ */
+export async function setMainThreadMarker(app: App, keys: FrontmatterKeys, file: TFile, isMain: boolean): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (fm) => {
+        if (isMain) {
+            fm[keys.threadKey] = true;
+        } else {
+            delete fm[keys.threadKey];
+        }
+    });
+}
+
+/**
+ * Write both prev and the main-thread marker in one frontmatter update.
+ * prevPath may point at a missing note; the link is then built from the path.
+ */
+export async function writeThreadLinks(
+    app: App,
+    keys: FrontmatterKeys,
+    file: TFile,
+    prevPath: string | null,
+    isMain: boolean
+): Promise<void> {
+    const parent = prevPath ? app.vault.getAbstractFileByPath(prevPath) : null;
+
+    await app.fileManager.processFrontMatter(file, (fm) => {
+        if (parent instanceof TFile) {
+            fm[keys.prevKey] = formatPrevLink(app, parent, file.path);
+        } else if (prevPath) {
+            fm[keys.prevKey] = `[[${prevPath.replace(/\.md$/, '')}]]`;
+        } else {
+            delete fm[keys.prevKey];
+        }
+
+        if (isMain) {
+            fm[keys.threadKey] = true;
+        } else {
+            delete fm[keys.threadKey];
+        }
+    });
+}
@@ -0,0 +1,116 @@
+import type { ViewMode } from './settings';
+import type MyPlugin from './main';
+
+/**
+ * Remembered Thread/markdown choices from "Toggle Thread view".
+ *
+ * Depending on the view mode scope, a choice is kept for the file (wherever
+ * it is opened) or for the leaf, as long as that leaf still shows the same
+ * file. Both are stored in the plugin data, so they survive restarts; leaf ids
+ * are stable across restarts because Obsidian saves them in the workspace.
+ */
+export class ViewModeStore {
+    private plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Get the remembered mode for a file shown in a leaf, if any
+     */
+    get(leafId: string | undefined, path: string): ViewMode | undefined {
+        const { fileViewModes, leafViewModes } = this.plugin.settings;
+        const leafMode = leafId ? leafViewModes[leafId] : undefined;
+        if (leafMode?.file === path) return leafMode.mode;
+        return fileViewModes[path];
+    }
+
+    /**
+     * Remember the mode chosen for a file shown in a leaf
+     */
+    async set(leafId: string | undefined, path: string, mode: ViewMode): Promise<void> {
+        const { settings } = this.plugin;
+        if (settings.viewModeScope === 'leaf' && leafId) {
+            settings.leafViewModes[leafId] = { file: path, mode };
+        } else {
+            settings.fileViewModes[path] = mode;
+            // A stale leaf choice would otherwise win over the new file choice
+            if (leafId) delete settings.leafViewModes[leafId];
+        }
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Remember a mode for a leaf only, whatever the scope setting says
+     */
+    async setForLeaf(leafId: string, path: string, mode: ViewMode): Promise<void> {
+        this.plugin.settings.leafViewModes[leafId] = { file: path, mode };
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Forget a leaf's choice, e.g. when the leaf is closed
+     */
+    forgetLeaf(leafId: string): void {
+        if (!(leafId in this.plugin.settings.leafViewModes)) return;
+        delete this.plugin.settings.leafViewModes[leafId];
+        this.plugin.saveSettings();
+    }
+
+    /**
+     * Drop choices for leaves that no longer exist in the workspace
+     */
+    pruneLeaves(liveLeafIds: Set<string>): void {
+        const { leafViewModes } = this.plugin.settings;
+        const stale = Object.keys(leafViewModes).filter(id => !liveLeafIds.has(id));
+        if (stale.length === 0) return;
+        for (const id of stale) {
+            delete leafViewModes[id];
+        }
+        this.plugin.saveSettings();
+    }
+
+    /**
+     * Carry choices over to a file's new path
+     */
+    renameFile(oldPath: string, newPath: string): void {
+        const { fileViewModes, leafViewModes } = this.plugin.settings;
+        let changed = false;
+
+        if (oldPath in fileViewModes) {
+            fileViewModes[newPath] = fileViewModes[oldPath];
+            delete fileViewModes[oldPath];
+            changed = true;
+        }
+        for (const leafMode of Object.values(leafViewModes)) {
+            if (leafMode.file === oldPath) {
+                leafMode.file = newPath;
+                changed = true;
+            }
+        }
+
+        if (changed) this.plugin.saveSettings();
+    }
+
+    /**
+     * Forget all choices for a deleted file
+     */
+    deleteFile(path: string): void {
+        const { fileViewModes, leafViewModes } = this.plugin.settings;
+        let changed = false;
+
+        if (path in fileViewModes) {
+            delete fileViewModes[path];
+            changed = true;
+        }
+        for (const [id, leafMode] of Object.entries(leafViewModes)) {
+            if (leafMode.file === path) {
+                delete leafViewModes[id];
+                changed = true;
+            }
+        }
+
+        if (changed) this.plugin.saveSettings();
+    }
+}
@@ -0,0 +1,121 @@
+import { App, Notice, TFile } from 'obsidian';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { SaveConflictModal } from '../modals/SaveConflictModal';
+
+// Idle time after the last keystroke before a note is written
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Debounced, per-note saving for thread editors.
+ *
+ * Each note remembers the body it was last loaded or saved with (its base).
+ * At save time the file is re-read: frontmatter is always taken from disk, and
+ * if the body on disk no longer matches the base someone else edited it, so
+ * the user is asked instead of silently overwriting.
+ */
+export class NoteSaveQueue {
+    private app: App;
+    private bases: Map<string, string> = new Map();
+    private pending: Map<string, string> = new Map();
+    private timers: Map<string, number> = new Map();
+    // Notes whose conflict prompt is open; their edits wait for the answer
+    private prompting: Set<string> = new Set();
+
+    /** Called after a save, with the full content written */
+    onSaved: (path: string, content: string) => void = () => { };
+
+    /** Called when the user chose to reload a note from disk */
+    onReload: (path: string) => void = () => { };
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Record the body as read from disk
+     */
+    setBase(path: string, body: string): void {
+        this.bases.set(path, body);
+    }
+
+    hasPending(path: string): boolean {
+        return this.pending.has(path);
+    }
+
+    /**
+     * Queue a body to be written once typing pauses
+     */
+    schedule(path: string, body: string): void {
+        this.pending.set(path, body);
+        if (this.prompting.has(path)) return;
+
+        const timer = this.timers.get(path);
+        if (timer !== undefined) window.clearTimeout(timer);
+        this.timers.set(path, window.setTimeout(() => {
+            this.flush(path).catch((error) => {
+                console.error(`Thread notes: could not save ${path}:`, error);
+                new Notice(`Could not save ${path}, see console for details.`);
+            });
+        }, SAVE_DELAY_MS));
+    }
+
+    /**
+     * Write a note's pending body now.
+     * While the note's conflict prompt is open this does nothing; the pending
+     * body is written (or dropped) once the user has answered.
+     */
+    async flush(path: string): Promise<void> {
+        if (this.prompting.has(path)) return;
+
+        const timer = this.timers.get(path);
+        if (timer !== undefined) window.clearTimeout(timer);
+        this.timers.delete(path);
+
+        const body = this.pending.get(path);
+        this.pending.delete(path);
+        if (body === undefined) return;
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return;
+
+        const base = this.bases.get(path);
+        let conflict = false;
+        const written = await this.app.vault.process(file, (data) => {
+            const current = extractFrontmatter(data);
+            if (base !== undefined && current.body !== base && current.body !== body) {
+                conflict = true;
+                return data;
+            }
+            return current.frontmatter + body;
+        });
+
+        if (!conflict) {
+            this.bases.set(path, body);
+            this.onSaved(path, written);
+            return;
+        }
+
+        this.prompting.add(path);
+        const resolution = await SaveConflictModal.prompt(this.app, path);
+        this.prompting.delete(path);
+
+        if (resolution === 'keep-mine') {
+            // Accept the disk version as the new base and write again
+            this.bases.set(path, extractFrontmatter(written).body);
+            if (!this.pending.has(path)) {
+                this.pending.set(path, body);
+            }
+            await this.flush(path);
+        } else {
+            this.pending.delete(path);
+            this.onReload(path);
+        }
+    }
+
+    /**
+     * Write every pending note, e.g. before the view closes
+     */
+    async flushAll(): Promise<void> {
+        await Promise.all(Array.from(this.pending.keys()).map(path => this.flush(path)));
+    }
+}
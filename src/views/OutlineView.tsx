@@ -0,0 +1,179 @@
+import { ItemView, TFile, WorkspaceLeaf, debounce } from 'obsidian';
+import { createRoot, Root } from 'react-dom/client';
+import { ThreadOutline } from '../components/ThreadOutline';
+import { ThreadView } from './ThreadView';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { createNoteComparator } from '../graph';
+import type MyPlugin from '../main';
+
+export const OUTLINE_VIEW_TYPE = 'thread-outline';
+
+/**
+ * A note in the outline, with the reply chains branching off it
+ */
+export interface OutlineItem {
+    path: string;
+    /** Whether the note exists in the vault */
+    exists: boolean;
+    /** Whether the note's prev link points at a missing note */
+    unresolved: boolean;
+    replies: OutlineItem[][];
+}
+
+/**
+ * Sidebar outline of the thread the active note belongs to
+ */
+export class OutlineView extends ItemView {
+    plugin: MyPlugin;
+    root: Root | null = null;
+
+    // Note the outline follows
+    private activePath: string | null = null;
+
+    // Last focused Thread view, which clicks scroll
+    private threadView: ThreadView | null = null;
+
+    private firstLines: Map<string, string> = new Map();
+
+    private requestRefresh = debounce(() => this.refresh(), 200, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return OUTLINE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Thread outline';
+    }
+
+    getIcon(): string {
+        return 'list-tree';
+    }
+
+    async onOpen(): Promise<void> {
+        this.contentEl.empty();
+        this.contentEl.addClass('thread-outline-view');
+        this.root = createRoot(this.contentEl);
+
+        // Follow the active leaf
+        this.registerEvent(
+            this.app.workspace.on('active-leaf-change', (leaf) => {
+                if (leaf?.view instanceof ThreadView) {
+                    this.threadView = leaf.view;
+                }
+                this.followActiveFile();
+            })
+        );
+        this.registerEvent(this.app.workspace.on('file-open', () => this.followActiveFile()));
+        this.registerEvent(this.plugin.graph.on('changed', () => this.requestRefresh()));
+
+        this.threadView = this.app.workspace.getActiveViewOfType(ThreadView);
+        this.followActiveFile();
+    }
+
+    async onClose(): Promise<void> {
+        this.root?.unmount();
+        this.root = null;
+        this.threadView = null;
+    }
+
+    private followActiveFile(): void {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md' || file.path === this.activePath) return;
+
+        this.activePath = file.path;
+        this.refresh();
+    }
+
+    /**
+     * Build the outline tree, guarding against cycles.
+     * Replies follow the default reply order from settings.
+     */
+    private buildChain(paths: string[], visited: Set<string>): OutlineItem[] {
+        const { graph, settings } = this.plugin;
+        const compare = createNoteComparator(this.app, graph, settings.replySortOrder, settings.sortProperties);
+        const items: OutlineItem[] = [];
+
+        for (const path of paths) {
+            if (visited.has(path)) continue;
+            visited.add(path);
+
+            items.push({
+                path,
+                exists: this.app.vault.getAbstractFileByPath(path) instanceof TFile,
+                unresolved: !graph.isResolved(path),
+                replies: graph.getReplyChains(path)
+                    .sort((a, b) => compare(a[0], b[0]))
+                    .map(chain => this.buildChain(chain, visited))
+                    .filter(chain => chain.length > 0),
+            });
+        }
+
+        return items;
+    }
+
+    private async refresh(): Promise<void> {
+        if (!this.root) return;
+        if (!this.activePath) {
+            this.root.render(<div className="pane-empty">No note is open.</div>);
+            return;
+        }
+
+        const chain = this.buildChain(this.plugin.graph.getFullThread(this.activePath), new Set());
+        this.render(chain);
+
+        // Add first lines as they are read
+        await this.loadFirstLines(chain);
+        this.render(chain);
+    }
+
+    private async loadFirstLines(chain: OutlineItem[]): Promise<void> {
+        for (const item of chain) {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (file instanceof TFile) {
+                const { body } = extractFrontmatter(await this.app.vault.cachedRead(file));
+                const firstLine = body.split('\n').map(l => l.replace(/^#+\s*/, '').trim()).find(l => l.length > 0);
+                if (firstLine) {
+                    this.firstLines.set(item.path, firstLine);
+                } else {
+                    this.firstLines.delete(item.path);
+                }
+            }
+            for (const replyChain of item.replies) {
+                await this.loadFirstLines(replyChain);
+            }
+        }
+    }
+
+    private render(chain: OutlineItem[]): void {
+        this.root?.render(
+            <ThreadOutline
+                chain={chain}
+                activePath={this.activePath}
+                firstLines={new Map(this.firstLines)}
+                onSelect={(path) => this.selectNote(path)}
+            />
+        );
+    }
+
+    /**
+     * Scroll the Thread view to a note, or open the note if no view shows it
+     */
+    private async selectNote(path: string): Promise<void> {
+        const view = this.threadView;
+        if (view && view.leaf.view === view && view.revealNote(path)) {
+            this.app.workspace.setActiveLeaf(view.leaf, { focus: false });
+            return;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            const leaf = view && view.leaf.view === view ? view.leaf : this.app.workspace.getLeaf(false);
+            await leaf.openFile(file);
+        }
+    }
+}
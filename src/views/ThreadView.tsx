@@ -1,29 +1,29 @@
-import { TextFileView, WorkspaceLeaf, TFile, App } from 'obsidian';
+import { TextFileView, WorkspaceLeaf, TFile, App, Menu, Notice, ViewStateResult, debounce, setIcon } from 'obsidian';
+import { EditorView } from '@codemirror/view';
 import { createRoot, Root } from 'react-dom/client';
 import { ThreadContainer } from '../components/ThreadContainer';
+import { createThreadNote, getContinuationParent } from '../commands/createThreadNote';
+import { extractFrontmatter } from '../utils/frontmatter';
+import { NoteSaveQueue } from './NoteSaveQueue';
+import { compileQuery, findMatches, replaceAllInBody, replaceMatch } from './threadSearch';
+import { setSearchHighlights } from '../components/searchHighlight';
+import { createNoteComparator } from '../graph';
+import { REPLY_SORT_OPTIONS } from '../settings';
+import type { NoteSortOrder } from '../graph';
 import type MyPlugin from '../main';
-import type { NoteContent, ThreadData, ThreadChain } from './types';
+import type {
+    CursorPlacement,
+    NoteContent,
+    SearchQuery,
+    SearchState,
+    ThreadChain,
+    ThreadData,
+    ThreadNavigation,
+    ThreadTreeNode,
+} from './types';
 
 export const THREAD_VIEW_TYPE = 'thread';
 
-// Regex to match YAML frontmatter at the start of a file
-const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
-
-/**
- * Extract YAML frontmatter from content.
- * Returns the frontmatter string (including delimiters) and the remaining content.
- */
-function extractFrontmatter(content: string): { frontmatter: string; body: string } {
-    const match = content.match(FRONTMATTER_REGEX);
-    if (match) {
-        return {
-            frontmatter: match[0],
-            body: content.slice(match[0].length),
-        };
-    }
-    return { frontmatter: '', body: content };
-}
-
 /**
  * Load note content from a file path
  */
@@ -39,9 +39,42 @@ async function loadNoteContent(app: App, path: string): Promise<NoteContent | nu
         frontmatter,
         body,
         ctime: file.stat.ctime,
+        loaded: true,
     };
 }
 
+/**
+ * Create a placeholder for a note whose content hasn't been read yet
+ */
+function createNoteStub(app: App, path: string): NoteContent | null {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return null;
+
+    return {
+        path,
+        frontmatter: '',
+        body: '',
+        ctime: file.stat.ctime,
+        loaded: false,
+    };
+}
+
+/**
+ * Focus a mounted editor, optionally moving the cursor to its start or end
+ */
+function focusEditor(editor: any, placement?: CursorPlacement | null): void {
+    const obsidianEditor = editor.editor;
+    if (!obsidianEditor) return;
+
+    obsidianEditor.focus();
+    if (placement === 'start') {
+        obsidianEditor.setCursor(0, 0);
+    } else if (placement === 'end') {
+        const lastLine = obsidianEditor.lastLine();
+        obsidianEditor.setCursor(lastLine, obsidianEditor.getLine(lastLine).length);
+    }
+}
+
 export class ThreadView extends TextFileView {
     plugin: MyPlugin;
     root: Root | null = null;
@@ -50,9 +83,66 @@ export class ThreadView extends TextFileView {
     // Store loaded thread data
     private threadData: ThreadData | null = null;
 
+    // Mounted editors by note path
+    private editors: Map<string, any> = new Map();
+
+    // Note to focus as soon as its editor mounts
+    private pendingFocusPath: string | null = null;
+    private pendingFocusPlacement: CursorPlacement | null = null;
+
+    // Note to scroll to after the next render (set when a new file is opened)
+    private pendingScrollPath: string | null = null;
+
+    // Last measured card heights, so placeholders keep the scroll stable
+    private noteHeights: Map<string, number> = new Map();
+
+    // Notes whose content is being read
+    private loadingNotes: Set<string> = new Set();
+
+    // Per-note expanded/collapsed state of reply chains
+    private expandedReplies: Map<string, boolean> = new Map();
+
+    // The opened note and its ancestors, whose replies start expanded
+    private expandedByDefault: Set<string> = new Set();
+
+    // Reply order chosen from this view's menu (null: the default from settings)
+    private replySortOrder: NoteSortOrder | null = null;
+
+    // Reading mode: notes are rendered, and only a clicked note gets an editor
+    private readingMode = false;
+
+    // Note swapped to an editor by clicking it while it was rendered
+    private editingPath: string | null = null;
+
+    // Header action toggling reading mode
+    private readingModeAction: HTMLElement | null = null;
+
+    // Find-in-thread bar state (null: closed)
+    private search: SearchState | null = null;
+
+    // Editors currently showing search highlights
+    private highlightedEditors: Set<any> = new Set();
+
+    // Note whose editor should scroll to the selected match once it mounts
+    private pendingMatchPath: string | null = null;
+
+    // Coalesce bursts of graph changes into one reload
+    private requestReload = debounce(() => this.loadAndRender(), 100, true);
+
+    // Debounced writes of edited notes
+    private saveQueue: NoteSaveQueue;
+
     constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
         super(leaf);
         this.plugin = plugin;
+
+        this.saveQueue = new NoteSaveQueue(this.app);
+        this.saveQueue.onSaved = (path, content) => {
+            if (path === this.file?.path) {
+                this.data = content;
+            }
+        };
+        this.saveQueue.onReload = (path) => this.refreshNote(path, true);
     }
 
     getViewType(): string {
@@ -72,9 +162,35 @@ export class ThreadView extends TextFileView {
         this.contentEl.empty();
         this.contentEl.addClass('thread-view');
         this.root = createRoot(this.contentEl);
+
+        this.addAction('arrow-up-down', 'Sort replies', (evt) => this.showSortMenu(evt));
+        this.readingModeAction = this.addAction('book-open', 'Reading mode', () => this.setReadingMode(!this.readingMode));
+        this.updateReadingModeAction();
+
+        // Reload when the structure of this thread changes
+        this.registerEvent(
+            this.plugin.graph.on('changed', (paths) => {
+                if (paths.some(p => this.isInThread(p))) {
+                    this.requestReload();
+                }
+            })
+        );
+
+        // Pick up edits to any note of this thread made elsewhere
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                // Unloaded notes are read fresh when they scroll into view
+                const note = file instanceof TFile ? this.getNote(file.path) : null;
+                if (note?.loaded) {
+                    this.refreshNote(note.path);
+                }
+            })
+        );
     }
 
     async onClose(): Promise<void> {
+        await this.saveQueue.flushAll();
+
         // Cleanup React root
         if (this.root) {
             this.root.unmount();
@@ -82,6 +198,29 @@ export class ThreadView extends TextFileView {
         }
         this.activeEditor = null;
         this.threadData = null;
+        this.editors.clear();
+        this.noteHeights.clear();
+    }
+
+    getState(): Record<string, unknown> {
+        const state = super.getState();
+        if (this.replySortOrder) {
+            state.replySortOrder = this.replySortOrder;
+        }
+        // Same key and values as the markdown view, so toggling views keeps the mode
+        state.mode = this.readingMode ? 'preview' : 'source';
+        return state;
+    }
+
+    async setState(state: any, result: ViewStateResult): Promise<void> {
+        // Read before the file loads so the first render uses it
+        this.replySortOrder = state?.replySortOrder ?? null;
+        if (state?.mode === 'preview' || state?.mode === 'source') {
+            this.readingMode = state.mode === 'preview';
+            this.editingPath = null;
+            this.updateReadingModeAction();
+        }
+        await super.setState(state, result);
     }
 
     getViewData(): string {
@@ -93,6 +232,7 @@ export class ThreadView extends TextFileView {
 
         if (clear) {
             this.activeEditor = null;
+            this.saveQueue.flushAll();
         }
 
         // Load thread data and render
@@ -104,6 +244,669 @@ export class ThreadView extends TextFileView {
         this.threadData = null;
     }
 
+    /**
+     * Rebuild the thread from the graph, e.g. after settings changed
+     */
+    refresh(): void {
+        this.requestReload();
+    }
+
+    isReadingMode(): boolean {
+        return this.readingMode;
+    }
+
+    /**
+     * Switch between editing all notes and reading them rendered
+     */
+    setReadingMode(reading: boolean): void {
+        if (reading === this.readingMode) return;
+
+        this.readingMode = reading;
+        this.editingPath = null;
+        this.updateReadingModeAction();
+        this.app.workspace.requestSaveLayout();
+        this.renderView();
+    }
+
+    private updateReadingModeAction(): void {
+        if (!this.readingModeAction) return;
+        // The icon shows the mode a click switches to, like the markdown view
+        setIcon(this.readingModeAction, this.readingMode ? 'pencil' : 'book-open');
+        this.readingModeAction.setAttribute('aria-label', this.readingMode ? 'Edit notes' : 'Read notes');
+    }
+
+    /**
+     * Whether a note gets an editor, or is rendered read-only
+     */
+    isNoteEditable(path: string): boolean {
+        if (path === this.editingPath) return true;
+        if (this.readingMode) return false;
+        return !this.plugin.settings.readOnlyOtherNotes || path === this.threadData?.currentPath;
+    }
+
+    /**
+     * Swap a rendered note for an editor and focus it
+     */
+    editNote(path: string, placement?: CursorPlacement): boolean {
+        if (!this.isInThread(path)) return false;
+        if (!this.isNoteEditable(path)) {
+            this.editingPath = path;
+        }
+        return this.revealNote(path, placement);
+    }
+
+    /**
+     * Reply order of this view, falling back to the default from settings
+     */
+    getReplySortOrder(): NoteSortOrder {
+        return this.replySortOrder ?? this.plugin.settings.replySortOrder;
+    }
+
+    /**
+     * Change this view's reply order (null: use the default from settings)
+     */
+    setReplySortOrder(order: NoteSortOrder | null): void {
+        this.replySortOrder = order;
+        this.app.workspace.requestSaveLayout();
+        this.loadAndRender();
+    }
+
+    private showSortMenu(evt: MouseEvent): void {
+        const menu = new Menu();
+        const defaultLabel = REPLY_SORT_OPTIONS.find(o => o.order === this.plugin.settings.replySortOrder)?.label;
+
+        menu.addItem(item => item
+            .setTitle(`Default${defaultLabel ? ` (${defaultLabel})` : ''}`)
+            .setChecked(this.replySortOrder === null)
+            .onClick(() => this.setReplySortOrder(null)));
+        menu.addSeparator();
+
+        for (const { order, label } of REPLY_SORT_OPTIONS) {
+            menu.addItem(item => item
+                .setTitle(label)
+                .setChecked(this.replySortOrder === order)
+                .onClick(() => this.setReplySortOrder(order)));
+        }
+
+        menu.showAtMouseEvent(evt);
+    }
+
+    /**
+     * Track a mounted editor so it can be refocused after re-renders
+     */
+    registerEditor(path: string, editor: any): void {
+        this.editors.set(path, editor);
+
+        if (this.pendingFocusPath === path) {
+            this.pendingFocusPath = null;
+            editor.containerEl?.scrollIntoView({ block: 'nearest' });
+            focusEditor(editor, this.pendingFocusPlacement);
+        }
+
+        this.applySearchHighlights(path, editor);
+        if (this.pendingMatchPath === path) {
+            this.pendingMatchPath = null;
+            this.scrollToActiveMatch();
+        }
+    }
+
+    unregisterEditor(path: string, editor: any): void {
+        if (this.editors.get(path) === editor) {
+            this.editors.delete(path);
+        }
+        this.highlightedEditors.delete(editor);
+    }
+
+    /**
+     * Remember a card's rendered height for its placeholder
+     */
+    setNoteHeight(path: string, height: number): void {
+        if (height > 0) {
+            this.noteHeights.set(path, height);
+        }
+    }
+
+    getNoteHeight(path: string): number | undefined {
+        return this.noteHeights.get(path);
+    }
+
+    /**
+     * Called by cards as they mount: scrolls a note waiting for focus into
+     * view so its editor gets mounted
+     */
+    claimScrollTarget(path: string, cardEl: HTMLElement): void {
+        if (this.pendingFocusPath === path) {
+            cardEl.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    /**
+     * Read a note's content on demand, once it comes near the viewport
+     */
+    async loadNote(path: string): Promise<void> {
+        if (this.loadingNotes.has(path)) return;
+
+        this.loadingNotes.add(path);
+        try {
+            await this.refreshNote(path);
+        } finally {
+            this.loadingNotes.delete(path);
+        }
+    }
+
+    /**
+     * Get the path of the note whose editor has focus
+     */
+    getFocusedPath(): string | null {
+        for (const [path, editor] of this.editors) {
+            if (editor.owner === this.activeEditor) return path;
+        }
+        return null;
+    }
+
+    /**
+     * Get the focused editor's Obsidian Editor instance, if any
+     */
+    getFocusedEditor(): any {
+        const path = this.getFocusedPath();
+        return path ? this.editors.get(path)?.editor ?? null : null;
+    }
+
+    /**
+     * Create a reply to a note, or continue the thread from it,
+     * and optionally focus the new note once it shows up in the view.
+     * Failures are reported to the user; resolves to whether a note was created.
+     */
+    async createNote(parentPath: string, isMain: boolean, content?: string, focus = true): Promise<boolean> {
+        const parent = isMain ? getContinuationParent(this.plugin, parentPath) : parentPath;
+        let file: TFile | null;
+        try {
+            file = await createThreadNote(this.plugin, parent, { isMain, content });
+        } catch (error) {
+            console.error('Creating thread note failed:', error);
+            new Notice('Could not create the note, see console for details.');
+            return false;
+        }
+
+        if (file && focus) {
+            this.pendingFocusPath = file.path;
+            this.pendingFocusPlacement = null;
+        }
+        return file !== null;
+    }
+
+    /**
+     * Show the thread from another note's point of view, in this leaf.
+     * The cards stay mounted; the reload expands and scrolls to the note.
+     */
+    async recenterOn(path: string): Promise<void> {
+        if (path === this.file?.path) return;
+        if (!(this.app.vault.getAbstractFileByPath(path) instanceof TFile)) return;
+
+        await this.leaf.setViewState({
+            type: THREAD_VIEW_TYPE,
+            state: { ...this.getState(), file: path },
+            active: true,
+        });
+    }
+
+    /**
+     * Write a note's pending edits now, e.g. before it is renamed
+     */
+    async flushNote(path: string): Promise<void> {
+        await this.saveQueue.flush(path);
+    }
+
+    /**
+     * Write every note's pending edits now
+     */
+    async flushAll(): Promise<void> {
+        await this.saveQueue.flushAll();
+    }
+
+    /**
+     * Open the find-in-thread bar, reading every note so all can be searched
+     */
+    async openSearch(showReplace = false): Promise<void> {
+        if (this.search) {
+            this.search.showReplace = this.search.showReplace || showReplace;
+        } else {
+            // Start from the selection in the focused editor, like in-file search
+            const selection = this.getFocusedEditor()?.getSelection() ?? '';
+            this.search = {
+                query: { text: selection.includes('\n') ? '' : selection, caseSensitive: false, regex: false },
+                replacement: '',
+                showReplace,
+                matches: [],
+                active: -1,
+                error: null,
+            };
+        }
+
+        this.renderView();
+        requestAnimationFrame(() => {
+            const input = this.contentEl.querySelector<HTMLInputElement>('.thread-search-input');
+            input?.focus();
+            input?.select();
+        });
+
+        await this.loadAllNotes();
+        this.updateSearch(true);
+    }
+
+    closeSearch(): void {
+        if (!this.search) return;
+
+        const activeMatch = this.search.matches[this.search.active];
+        this.search = null;
+        this.renderView();
+
+        // Continue editing where the selected match was
+        const editor = activeMatch ? this.editors.get(activeMatch.path) : null;
+        if (editor) {
+            const cm: EditorView = editor.cm;
+            cm.dispatch({ selection: { anchor: activeMatch.from, head: activeMatch.to } });
+            cm.focus();
+        }
+    }
+
+    setSearchQuery(query: Partial<SearchQuery>): void {
+        if (!this.search) return;
+        this.search.query = { ...this.search.query, ...query };
+        this.updateSearch(true);
+    }
+
+    setSearchReplacement(replacement: string): void {
+        if (!this.search) return;
+        this.search.replacement = replacement;
+        this.renderView();
+    }
+
+    toggleSearchReplace(): void {
+        if (!this.search) return;
+        this.search.showReplace = !this.search.showReplace;
+        this.renderView();
+    }
+
+    /**
+     * Select the next (1) or previous (-1) match, wrapping around the thread
+     */
+    findNext(step: 1 | -1): void {
+        const search = this.search;
+        if (!search || search.matches.length === 0) return;
+
+        const count = search.matches.length;
+        search.active = (search.active + step + count) % count;
+        this.renderView();
+        this.showActiveMatch();
+    }
+
+    /**
+     * Replace the selected match and move on to the next one
+     */
+    replaceCurrent(): void {
+        const search = this.search;
+        const pattern = search ? compileQuery(search.query) : null;
+        const match = search?.matches[search.active];
+        if (!search || !(pattern instanceof RegExp) || !match) return;
+
+        const note = this.getNote(match.path);
+        if (!note) return;
+
+        const body = note.body;
+        const edited = replaceMatch(body, match, pattern, search.replacement, search.query.regex);
+        this.applyBodyEdit(note, edited);
+
+        // Continue after the inserted text, so a replacement that matches
+        // again isn't picked up. Matches in earlier notes keep their indices.
+        const end = match.to + edited.length - body.length;
+        const start = search.matches.findIndex(m => m.path === match.path);
+        this.updateSearch();
+
+        const count = search.matches.length;
+        if (count > 0) {
+            const skipped = search.matches.filter(m => m.path === match.path && m.from < end).length;
+            search.active = (start + skipped) % count;
+            this.renderView();
+        }
+        this.showActiveMatch();
+    }
+
+    /**
+     * Replace every match in every note of the thread
+     */
+    replaceAll(): void {
+        const search = this.search;
+        const pattern = search ? compileQuery(search.query) : null;
+        if (!search || !(pattern instanceof RegExp) || search.matches.length === 0) return;
+
+        const count = search.matches.length;
+        const paths = new Set(search.matches.map(m => m.path));
+        for (const path of paths) {
+            const note = this.getNote(path);
+            if (note) {
+                this.applyBodyEdit(note, replaceAllInBody(note.body, pattern, search.replacement, search.query.regex));
+            }
+        }
+
+        new Notice(`Replaced ${count} ${count === 1 ? 'match' : 'matches'} in ${paths.size} ${paths.size === 1 ? 'note' : 'notes'}.`);
+        this.updateSearch(true);
+    }
+
+    /**
+     * Recompute matches for the current query and re-render
+     */
+    private updateSearch(resetActive = false): void {
+        const search = this.search;
+        if (!search) return;
+
+        const pattern = compileQuery(search.query);
+        search.error = typeof pattern === 'string' ? pattern : null;
+        search.matches = pattern instanceof RegExp ? findMatches(this.getAllNotes(), pattern) : [];
+
+        const count = search.matches.length;
+        if (count === 0) {
+            search.active = -1;
+        } else if (resetActive || search.active < 0) {
+            search.active = 0;
+        } else {
+            search.active = Math.min(search.active, count - 1);
+        }
+
+        this.renderView();
+        if (resetActive && count > 0) {
+            this.showActiveMatch();
+        }
+    }
+
+    /**
+     * Push the search highlights for a note into its editor (clearing them if
+     * the search is closed)
+     */
+    private applySearchHighlights(path: string, editor: any): void {
+        const cm: EditorView | undefined = editor.cm;
+        if (!cm) return;
+
+        const search = this.search;
+        if (!search) {
+            if (this.highlightedEditors.delete(editor)) {
+                cm.dispatch({ effects: setSearchHighlights.of({ ranges: [], active: -1 }) });
+            }
+            return;
+        }
+
+        // Offsets are into the note body; skip editors that haven't caught up yet
+        const note = this.getNote(path);
+        if (!note || cm.state.doc.toString() !== note.body) return;
+
+        const ranges = search.matches.filter(m => m.path === path);
+        const activeMatch = search.matches[search.active];
+        cm.dispatch({
+            effects: setSearchHighlights.of({ ranges, active: activeMatch ? ranges.indexOf(activeMatch) : -1 }),
+        });
+        this.highlightedEditors.add(editor);
+    }
+
+    /**
+     * Bring the selected match into view, giving its note an editor if needed
+     */
+    private showActiveMatch(): void {
+        const match = this.search?.matches[this.search.active];
+        if (!match) return;
+
+        this.expandToNote(match.path);
+        if (!this.isNoteEditable(match.path)) {
+            this.editingPath = match.path;
+        }
+        this.renderView();
+
+        // After the re-render has restored the scroll position
+        requestAnimationFrame(() => {
+            if (this.editors.has(match.path)) {
+                this.scrollToActiveMatch();
+            } else {
+                // The card mounts its editor once it is near the viewport
+                this.pendingMatchPath = match.path;
+                this.contentEl
+                    .querySelector(`.thread-note[data-path="${CSS.escape(match.path)}"]`)
+                    ?.scrollIntoView({ block: 'center' });
+            }
+        });
+    }
+
+    private scrollToActiveMatch(): void {
+        const match = this.search?.matches[this.search.active];
+        const cm: EditorView | undefined = match ? this.editors.get(match.path)?.cm : undefined;
+        if (!match || !cm || match.to > cm.state.doc.length) return;
+
+        cm.dispatch({ effects: EditorView.scrollIntoView(match.from, { y: 'center' }) });
+    }
+
+    /**
+     * Update a note's body from the view itself (not its editor) and save it.
+     * The editor picks the new body up on the next render.
+     */
+    private applyBodyEdit(note: NoteContent, body: string): void {
+        if (note.body === body) return;
+        note.body = body;
+        this.saveQueue.schedule(note.path, body);
+    }
+
+    /**
+     * Read every note of the thread that is still a placeholder
+     */
+    private async loadAllNotes(): Promise<void> {
+        const unloaded = this.getAllNotes().filter(n => !n.loaded);
+        await Promise.all(unloaded.map(n => this.loadNote(n.path)));
+    }
+
+    /**
+     * Whether a note's replies are expanded.
+     * Replies on the way to the opened note start expanded, everything else collapsed.
+     */
+    isRepliesExpanded(path: string): boolean {
+        return this.expandedReplies.get(path) ?? this.expandedByDefault.has(path);
+    }
+
+    setRepliesExpanded(path: string, expanded: boolean): void {
+        this.expandedReplies.set(path, expanded);
+        this.renderView();
+    }
+
+    /**
+     * Scroll to a note of this thread and focus its editor, expanding any
+     * collapsed replies on the way. Returns false if the note isn't in this thread.
+     */
+    revealNote(path: string, placement?: CursorPlacement): boolean {
+        if (!this.isInThread(path)) return false;
+
+        this.expandToNote(path);
+
+        const editor = this.editors.get(path);
+        if (editor) {
+            editor.containerEl?.scrollIntoView({ block: 'center' });
+            focusEditor(editor, placement);
+            return true;
+        }
+
+        // Focus once the editor mounts; scroll now if the card already exists
+        this.pendingFocusPath = path;
+        this.pendingFocusPlacement = placement ?? null;
+        this.renderView();
+        this.contentEl
+            .querySelector(`.thread-note[data-path="${CSS.escape(path)}"]`)
+            ?.scrollIntoView({ block: 'center' });
+        return true;
+    }
+
+    /**
+     * Expand every collapsed reply list between the thread root and a note
+     */
+    private expandToNote(path: string): void {
+        const graph = this.plugin.graph;
+        const visited = new Set<string>([path]);
+        for (let child = path, p = graph.getPrev(path); p && !visited.has(p); child = p, p = graph.getPrev(p)) {
+            visited.add(p);
+            if (graph.getMainContinuation(p) !== child) {
+                this.expandedReplies.set(p, true);
+            }
+        }
+    }
+
+    /**
+     * Move focus from the focused note (or the opened note) to a related note.
+     * Returns false if there is no such note.
+     */
+    navigate(target: ThreadNavigation, from?: string): boolean {
+        if (!this.threadData) return false;
+
+        const path = from ?? this.getFocusedPath() ?? this.threadData.currentPath;
+        const mainNodes = this.threadData.mainChain.nodes;
+        let next: string | null = null;
+        let placement: CursorPlacement | undefined;
+
+        switch (target) {
+            case 'previous':
+            case 'next': {
+                // Notes in the order they appear on screen
+                const visible = this.getVisiblePaths();
+                const index = visible.indexOf(path);
+                if (index === -1) return false;
+                next = visible[index + (target === 'next' ? 1 : -1)] ?? null;
+                placement = target === 'next' ? 'start' : 'end';
+                break;
+            }
+            case 'root':
+                next = mainNodes[0]?.note.path ?? null;
+                break;
+            case 'end':
+                next = mainNodes[mainNodes.length - 1]?.note.path ?? null;
+                break;
+            case 'first-reply':
+                next = this.locateNote(path)?.node.replies[0]?.nodes[0]?.note.path ?? null;
+                break;
+            case 'parent':
+                next = this.locateNote(path)?.branch?.note.path ?? null;
+                break;
+            case 'next-sibling':
+            case 'previous-sibling': {
+                // Cycle through the reply chains branching off the same note
+                const location = this.locateNote(path);
+                const siblings = location?.branch?.replies;
+                if (!location || !siblings || siblings.length < 2) return false;
+                const index = siblings.indexOf(location.chain);
+                const step = target === 'next-sibling' ? 1 : -1;
+                next = siblings[(index + step + siblings.length) % siblings.length].nodes[0]?.note.path ?? null;
+                break;
+            }
+        }
+
+        if (!next || next === path) return false;
+        return this.editNote(next, placement);
+    }
+
+    /**
+     * Paths of rendered notes in screen order, skipping collapsed replies
+     */
+    private getVisiblePaths(): string[] {
+        const paths: string[] = [];
+        const collect = (chain: ThreadChain) => {
+            for (const node of chain.nodes) {
+                paths.push(node.note.path);
+                if (this.isRepliesExpanded(node.note.path)) {
+                    node.replies.forEach(collect);
+                }
+            }
+        };
+        if (this.threadData) {
+            collect(this.threadData.mainChain);
+        }
+        return paths;
+    }
+
+    /**
+     * Find a note in the thread tree, with the chain it belongs to and the
+     * note that chain branches off (null for the main chain)
+     */
+    private locateNote(path: string): { node: ThreadTreeNode; chain: ThreadChain; branch: ThreadTreeNode | null } | null {
+        const search = (chain: ThreadChain, branch: ThreadTreeNode | null): ReturnType<ThreadView['locateNote']> => {
+            for (const node of chain.nodes) {
+                if (node.note.path === path) return { node, chain, branch };
+                for (const reply of node.replies) {
+                    const found = search(reply, node);
+                    if (found) return found;
+                }
+            }
+            return null;
+        };
+        return this.threadData ? search(this.threadData.mainChain, null) : null;
+    }
+
+    /**
+     * Get all notes in the thread tree, including collapsed replies
+     */
+    private getAllNotes(): NoteContent[] {
+        const notes: NoteContent[] = [];
+        const collect = (chain: ThreadChain) => {
+            for (const node of chain.nodes) {
+                notes.push(node.note);
+                node.replies.forEach(collect);
+            }
+        };
+        if (this.threadData) {
+            collect(this.threadData.mainChain);
+        }
+        return notes;
+    }
+
+    /**
+     * Find a rendered note by path
+     */
+    private getNote(path: string): NoteContent | null {
+        return this.getAllNotes().find(n => n.path === path) ?? null;
+    }
+
+    /**
+     * Check if a path is part of the rendered thread
+     */
+    private isInThread(path: string): boolean {
+        if (path === this.file?.path) return true;
+        return this.getNote(path) !== null;
+    }
+
+    /**
+     * Re-read a single note from disk and re-render if it changed.
+     * Notes with unsaved edits are left alone unless forced; the save
+     * queue detects the external change when it writes them.
+     */
+    private async refreshNote(path: string, force = false): Promise<void> {
+        if (!force && this.saveQueue.hasPending(path)) return;
+
+        const fresh = await loadNoteContent(this.app, path);
+        if (!fresh || !this.threadData) return;
+        if (!force && this.saveQueue.hasPending(path)) return;
+
+        this.saveQueue.setBase(path, fresh.body);
+
+        const replaceIn = (chain: ThreadChain): ThreadChain => ({
+            nodes: chain.nodes.map(node => ({
+                note: node.note.path === path ? fresh : node.note,
+                replies: node.replies.map(replaceIn),
+            })),
+        });
+
+        const note = this.getNote(path);
+        if (!note || (note.loaded && note.body === fresh.body && note.frontmatter === fresh.frontmatter)) {
+            return;
+        }
+
+        this.threadData = {
+            ...this.threadData,
+            mainChain: replaceIn(this.threadData.mainChain),
+        };
+        this.renderView();
+    }
+
     /**
      * Load thread data from graph and render
      */
@@ -113,50 +916,77 @@ export class ThreadView extends TextFileView {
         const path = this.file.path;
         const graph = this.plugin.graph;
 
-        // Get main thread chain
-        const mainChainPaths = graph.getFullThread(path);
-        const mainNotes = await Promise.all(
-            mainChainPaths.map(p => loadNoteContent(this.app, p))
+        // Build the tree from stubs; content is read lazily per note.
+        // Notes already loaded are kept so re-renders don't flash placeholders.
+        const previous = new Map(this.getAllNotes().map(n => [n.path, n] as [string, NoteContent]));
+        const visited = new Set<string>();
+        const compare = createNoteComparator(
+            this.app,
+            graph,
+            this.getReplySortOrder(),
+            this.plugin.settings.sortProperties
         );
-        const mainChain: ThreadChain = {
-            notes: mainNotes.filter((n): n is NoteContent => n !== null),
-        };
+        const toChain = (paths: string[]): ThreadChain => {
+            const nodes: ThreadTreeNode[] = [];
+            for (const p of paths) {
+                // Guard against cycles pulling a note in twice
+                if (visited.has(p)) continue;
+                visited.add(p);
 
-        // Get reply chains for current note, sorted by ctime
-        const replyChainPaths = graph.getReplyChains(path);
-        const replyChains: ThreadChain[] = [];
+                const existing = previous.get(p);
+                const note = existing?.loaded ? existing : createNoteStub(this.app, p);
+                if (!note) continue;
 
-        for (const chainPaths of replyChainPaths) {
-            const notes = await Promise.all(
-                chainPaths.map(p => loadNoteContent(this.app, p))
-            );
-            const chain: ThreadChain = {
-                notes: notes.filter((n): n is NoteContent => n !== null),
-            };
-            if (chain.notes.length > 0) {
-                replyChains.push(chain);
+                // Reply chains sorted by their first note
+                const replies = graph.getReplyChains(p)
+                    .map(toChain)
+                    .filter(chain => chain.nodes.length > 0)
+                    .sort((a, b) => compare(a.nodes[0].note.path, b.nodes[0].note.path));
+
+                nodes.push({ note, replies });
             }
+            return { nodes };
+        };
+
+        // Get main thread chain, with nested replies
+        const mainChain = toChain(graph.getFullThread(path));
+
+        // Make sure the opened note is visible even if it sits in a reply
+        this.expandedByDefault = new Set([path]);
+        for (let p = graph.getPrev(path); p && !this.expandedByDefault.has(p); p = graph.getPrev(p)) {
+            this.expandedByDefault.add(p);
         }
 
-        // Sort reply chains by first note's ctime
-        replyChains.sort((a, b) => {
-            const ctimeA = a.notes[0]?.ctime ?? 0;
-            const ctimeB = b.notes[0]?.ctime ?? 0;
-            return ctimeA - ctimeB;
-        });
+        if (this.threadData?.currentPath !== path) {
+            // Re-centering within the same thread keeps collapsed lists, so
+            // open any that would hide the note before scrolling to it
+            this.expandToNote(path);
+            this.pendingScrollPath = path;
+        }
 
         this.threadData = {
             mainChain,
-            replyChains,
             currentPath: path,
         };
 
         this.renderView();
+
+        // Notes that joined the thread need their content to be searchable
+        if (this.search) {
+            await this.loadAllNotes();
+            this.updateSearch();
+        }
     }
 
     private renderView(): void {
         if (!this.root || !this.threadData) return;
 
+        // Remember scroll position and focused note across the re-render
+        const scrollTop = this.contentEl.scrollTop;
+        const focusedPath = this.contentEl
+            .querySelector('.thread-markdown-editor:focus-within')
+            ?.getAttribute('data-path');
+
         const context = {
             app: this.app,
             view: this,
@@ -167,43 +997,53 @@ export class ThreadView extends TextFileView {
             <ThreadContainer
                 context={context}
                 threadData={this.threadData}
+                search={this.search}
                 onContentChange={(body, filePath) => this.handleContentChange(body, filePath)}
             />
         );
+
+        requestAnimationFrame(() => {
+            // A newly opened note is scrolled to instead of keeping the old position.
+            // Its card may have been mounted all along (same thread, same keys),
+            // so look it up rather than waiting for it to mount.
+            if (this.pendingScrollPath) {
+                this.contentEl
+                    .querySelector(`.thread-note[data-path="${CSS.escape(this.pendingScrollPath)}"]`)
+                    ?.scrollIntoView({ block: 'start' });
+                this.pendingScrollPath = null;
+            } else if (this.contentEl.scrollTop !== scrollTop) {
+                this.contentEl.scrollTop = scrollTop;
+            }
+            if (focusedPath) {
+                const editor = this.editors.get(focusedPath);
+                if (editor && !editor.containerEl?.contains(document.activeElement)) {
+                    editor.editor?.focus();
+                }
+            }
+            if (this.search || this.highlightedEditors.size > 0) {
+                for (const [path, editor] of this.editors) {
+                    this.applySearchHighlights(path, editor);
+                }
+            }
+        });
     }
 
     /**
      * Handle content change from any editor
      */
-    private async handleContentChange(body: string, filePath: string): Promise<void> {
-        const file = this.app.vault.getAbstractFileByPath(filePath);
-        if (!(file instanceof TFile)) return;
-
-        // Find the note in our thread data to get its frontmatter
-        let frontmatter = '';
-        const allNotes = [
-            ...this.threadData?.mainChain.notes ?? [],
-            ...this.threadData?.replyChains.flatMap(c => c.notes) ?? [],
-        ];
-        const note = allNotes.find(n => n.path === filePath);
-        if (note) {
-            frontmatter = note.frontmatter;
-        }
+    private handleContentChange(body: string, filePath: string): void {
+        const note = this.getNote(filePath);
+        if (!note) return;
 
-        // Reconstruct full content
-        const fullContent = frontmatter + body;
+        // Echo of a change we just applied from another pane
+        if (note.body === body) return;
 
-        // Save to file
-        await this.app.vault.modify(file, fullContent);
-
-        // Update local data if this is the current file
-        if (filePath === this.file?.path) {
-            this.data = fullContent;
-        }
+        note.body = body;
+        this.saveQueue.schedule(filePath, body);
 
-        // Update note content in threadData
-        if (note) {
-            note.body = body;
+        // Keep match counts and highlights in step with typing
+        if (this.search) {
+            this.updateSearch();
         }
     }
 }
@@ -0,0 +1,74 @@
+import type { NoteContent, SearchMatch, SearchQuery } from './types';
+
+/**
+ * Build a global regex for a query, or an error message if it isn't valid
+ */
+export function compileQuery(query: SearchQuery): RegExp | string | null {
+    if (!query.text) return null;
+
+    const source = query.regex ? query.text : query.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    try {
+        return new RegExp(source, query.caseSensitive ? 'g' : 'gi');
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+}
+
+/**
+ * Find all non-empty matches in the bodies of the given notes, in note order
+ */
+export function findMatches(notes: NoteContent[], pattern: RegExp): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    for (const note of notes) {
+        for (const match of note.body.matchAll(pattern)) {
+            if (match[0].length === 0 || match.index === undefined) continue;
+            matches.push({ path: note.path, from: match.index, to: match.index + match[0].length });
+        }
+    }
+    return matches;
+}
+
+/**
+ * Expand $&, $1-$99 and $$ in a regex replacement
+ */
+function expandGroups(replacement: string, groups: (string | undefined)[]): string {
+    return replacement.replace(/\$(\$|&|\d{1,2})/g, (token: string, ref: string) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return groups[0] ?? '';
+        const index = Number(ref);
+        return index > 0 && index < groups.length ? groups[index] ?? '' : token;
+    });
+}
+
+/**
+ * Replace a single match in a body. Regex queries support $1-style groups;
+ * plain text replacements are inserted as typed.
+ */
+export function replaceMatch(body: string, match: SearchMatch, pattern: RegExp, replacement: string, regex: boolean): string {
+    let inserted = replacement;
+    if (regex) {
+        // Re-run the pattern at the match so groups and lookarounds see the whole body
+        const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+        sticky.lastIndex = match.from;
+        const groups = sticky.exec(body);
+        if (!groups || groups[0].length !== match.to - match.from) return body;
+        inserted = expandGroups(replacement, groups);
+    }
+    return body.slice(0, match.from) + inserted + body.slice(match.to);
+}
+
+/**
+ * Replace every non-empty match in a body
+ */
+export function replaceAllInBody(body: string, pattern: RegExp, replacement: string, regex: boolean): string {
+    return body.replace(pattern, (...args: any[]) => {
+        const matched: string = args[0];
+        if (matched.length === 0) return matched;
+        if (!regex) return replacement;
+
+        // Arguments after the groups are offset, whole string and (maybe) named groups
+        const namedOffset = typeof args[args.length - 1] === 'object' ? 1 : 0;
+        const groups = args.slice(0, args.length - 2 - namedOffset);
+        return expandGroups(replacement, groups);
+    });
+}
@@ -14,23 +14,82 @@ export interface NoteContent {
     body: string;
     /** File creation time (for sorting) */
     ctime: number;
+    /** Whether frontmatter and body have been read (false: placeholder) */
+    loaded: boolean;
+}
+
+/**
+ * A note in the thread tree, with the reply chains branching off it
+ */
+export interface ThreadTreeNode {
+    note: NoteContent;
+    /** Reply chains of this note (each a chain that may branch further) */
+    replies: ThreadChain[];
 }
 
 /**
  * A chain of notes representing a thread
  */
 export interface ThreadChain {
-    notes: NoteContent[];
+    nodes: ThreadTreeNode[];
 }
 
 /**
  * Complete thread data for rendering
  */
 export interface ThreadData {
-    /** Main thread chain from root to end */
+    /** Main thread chain from root to end; replies hang off its nodes */
     mainChain: ThreadChain;
-    /** Reply chains (each reply's full thread) */
-    replyChains: ThreadChain[];
     /** Current note path (the one opened in the view) */
     currentPath: string;
 }
+
+/**
+ * Targets for keyboard navigation between notes, relative to the focused note
+ */
+export type ThreadNavigation =
+    | 'previous'
+    | 'next'
+    | 'root'
+    | 'end'
+    | 'first-reply'
+    | 'parent'
+    | 'next-sibling'
+    | 'previous-sibling';
+
+/**
+ * Where to put the cursor when focusing a note's editor
+ */
+export type CursorPlacement = 'start' | 'end';
+
+/**
+ * Query of the find-in-thread bar
+ */
+export interface SearchQuery {
+    text: string;
+    caseSensitive: boolean;
+    regex: boolean;
+}
+
+/**
+ * A match of the search query inside a note's body
+ */
+export interface SearchMatch {
+    path: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * State of the find-in-thread bar, as rendered
+ */
+export interface SearchState {
+    query: SearchQuery;
+    replacement: string;
+    showReplace: boolean;
+    matches: SearchMatch[];
+    /** Index of the selected match, or -1 */
+    active: number;
+    /** Regex syntax error, if any */
+    error: string | null;
+}